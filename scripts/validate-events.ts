@@ -0,0 +1,94 @@
+// Validate life events and overlay datasets
+// Usage: yarn validate:events (also runs automatically before yarn build)
+// Exits with code 1 when any errors are found; warnings are reported but do not fail
+
+import fs from 'fs'
+import path from 'path'
+import { loadEnvConfig } from '@next/env'
+import type { PrivateDates } from '../src/app/data/life-events'
+
+async function main() {
+  // Load .env.local etc. the same way Next.js does, before reading server config
+  loadEnvConfig(process.cwd())
+
+  const { createDerivedConfig } = await import('../src/app/config/app-config')
+  const { PROFILES } = await import('../src/app/config/profiles')
+  const { getServerConfig } = await import('../src/app/lib/server-config')
+  const { readEventSources } = await import('../src/app/lib/events-loader')
+  const { OVERLAYS } = await import('../src/app/data/overlays')
+  const {
+    validateEventsData,
+    LIFE_EVENT_FIELDS,
+    OVERLAY_EVENT_FIELDS,
+  } = await import('../src/app/lib/events-validator')
+
+  const relative = (file: string) => path.relative(process.cwd(), file)
+  const readSource = (file: string) => fs.readFileSync(file, 'utf8')
+
+  // Overlays are checked against the latest end year of any profile that has private dates
+  const endYears: number[] = []
+
+  const profileIssues = PROFILES.flatMap(profile => {
+    // Private dates are optional here so events can be linted without secrets
+    let placeholders: PrivateDates | undefined
+    let birthDate: string | undefined
+    let endYear: number | undefined
+    try {
+      const serverConfig = getServerConfig(profile)
+      placeholders = serverConfig.PRIVATE_DATES
+      birthDate = serverConfig.BIRTH_DATE
+      endYear = createDerivedConfig(birthDate, profile).endYear
+      endYears.push(endYear)
+    } catch (error) {
+      console.warn(`⚠ Private dates for "${profile.slug}" not available, skipping placeholder and lifespan checks: ${(error as Error).message}\n`)
+    }
+
+    return readEventSources(profile.lifeEventsFile).flatMap(({ file, events }) =>
+      validateEventsData(events, {
+        file: relative(file),
+        source: readSource(file),
+        fields: LIFE_EVENT_FIELDS,
+        personal: true,
+        placeholders,
+        birthDate,
+        endYear,
+      })
+    )
+  })
+
+  const endYear = endYears.length > 0 ? Math.max(...endYears) : undefined
+
+  const issues = [
+    ...profileIssues,
+    ...OVERLAYS.flatMap(overlay =>
+      validateEventsData(overlay.events, {
+        file: overlay.sourceFile ?? `overlay "${overlay.id}"`,
+        source: overlay.sourceFile ? readSource(overlay.sourceFile) : undefined,
+        fields: overlay.fields ?? OVERLAY_EVENT_FIELDS,
+        endYear,
+      })
+    ),
+  ]
+
+  issues.forEach(issue => {
+    const location = issue.line ? `${issue.file}:${issue.line}` : issue.file
+    const log = issue.severity === 'error' ? console.error : console.warn
+    log(`${location}  ${issue.severity}  ${issue.date}: ${issue.message}`)
+  })
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+  const warningCount = issues.length - errorCount
+
+  if (issues.length === 0) {
+    console.log('✔ No problems found in life events or overlays')
+  } else {
+    console.log(`\n${errorCount > 0 ? '✖' : '⚠'} ${errorCount} error(s), ${warningCount} warning(s)`)
+  }
+
+  process.exit(errorCount > 0 ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,19 @@
+// Link preview of a profile page: weeks-lived stats and a thumbnail of the current grid
+
+import { notFound } from 'next/navigation'
+import { getProfile } from '../config/profiles'
+import { loadProfileTimeline } from '../lib/profile-timeline'
+import { OG_IMAGE_SIZE, renderProfileOgImage } from '../lib/og-image'
+
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+export const alt = 'Life in Weeks - each week of a life as a little box'
+
+export default async function Image({ params }: { params: Promise<{ person: string }> }) {
+  const { person } = await params
+  const profile = getProfile(person)
+  if (!profile) {
+    notFound()
+  }
+  return renderProfileOgImage(loadProfileTimeline(profile))
+}
@@ -0,0 +1,34 @@
+/**
+ * Life in Weeks - Profile Page (Server Component)
+ * 
+ * Renders the timeline of the profile whose slug matches the URL (/ran, /alex, ...)
+ * Unlisted (non-public) profiles are still served here, just not linked from the index
+ */
+
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { getProfile } from '../config/profiles'
+import { createProfileMetadata } from '../lib/page-metadata'
+import { ProfileTimelinePage } from '../components/profile-timeline-page'
+import { SearchParams } from '../utils/overlay-params'
+import '../weeks.css'
+
+interface PersonPageProps {
+  params: Promise<{ person: string }>
+  searchParams: Promise<SearchParams>
+}
+
+export async function generateMetadata({ params }: PersonPageProps): Promise<Metadata> {
+  const profile = getProfile((await params).person)
+  return profile ? createProfileMetadata(profile) : {}
+}
+
+export default async function PersonPage({ params, searchParams }: PersonPageProps) {
+  const { person } = await params
+  const profile = getProfile(person)
+  if (!profile) {
+    notFound()
+  }
+
+  return <ProfileTimelinePage profile={profile} searchParams={await searchParams} />
+}
@@ -0,0 +1,38 @@
+/**
+ * Life in Weeks - Poster Page (Server Component)
+ * 
+ * The whole life of a profile on one printable page (/ran/poster?size=A2)
+ * Paper sizes: A4, A3 (default), A2, A1, Letter and Tabloid; overlays follow the URL as on the timeline
+ */
+
+import { notFound } from 'next/navigation'
+import { getProfile } from '../../config/profiles'
+import { loadProfileTimeline } from '../../lib/profile-timeline'
+import { PosterView } from '../../components/poster-view'
+import { parseOverlayParams, SearchParams } from '../../utils/overlay-params'
+import { parsePaperSize } from '../../utils/poster-layout'
+import '../../weeks.css'
+
+interface PosterPageProps {
+  params: Promise<{ person: string }>
+  searchParams: Promise<SearchParams>
+}
+
+export default async function PosterPage({ params, searchParams }: PosterPageProps) {
+  const { person } = await params
+  const profile = getProfile(person)
+  if (!profile) {
+    notFound()
+  }
+
+  const query = await searchParams
+  const timeline = loadProfileTimeline(profile)
+
+  return (
+    <PosterView
+      timeline={timeline}
+      paperSize={parsePaperSize(query.size)}
+      overlays={parseOverlayParams(query, timeline.derivedConfig.config)}
+    />
+  )
+}
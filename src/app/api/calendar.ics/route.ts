@@ -0,0 +1,37 @@
+/**
+ * Life in Weeks - Calendar Feed (Route Handler)
+ * 
+ * GET /api/calendar.ics publishes a profile's personal life events as an iCalendar
+ * feed that calendar apps can subscribe to (overlays are not included):
+ * 
+ * - person: profile slug (default: the first profile)
+ * 
+ * Exact days appear only where the site shows them; with showPersonalEventDates off,
+ * and for private ({{placeholder}}) dates, events sit on the first of their month
+ */
+
+import { PROFILES, getProfile } from '../../config/profiles'
+import { loadProfileTimeline } from '../../lib/profile-timeline'
+import { serializeIcs } from '../../lib/ical'
+
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const profile = getProfile(searchParams.get('person') ?? PROFILES[0].slug)
+  if (!profile) {
+    return new Response('Unknown profile', { status: 404 })
+  }
+
+  const { lifeEvents, derivedConfig } = loadProfileTimeline(profile)
+  const calendar = serializeIcs(lifeEvents, {
+    slug: derivedConfig.slug,
+    name: derivedConfig.title,
+    showPersonalEventDates: derivedConfig.config.showPersonalEventDates
+  })
+
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${derivedConfig.slug}.ics"`
+    }
+  })
+}
@@ -0,0 +1,33 @@
+/**
+ * Life in Weeks - SVG Export (Route Handler)
+ * 
+ * GET /api/export.svg renders a profile's timeline as a standalone vector image
+ * for slides and READMEs, without a browser:
+ * 
+ * - person: profile slug (default: the first profile)
+ * - mode: standard (default) or compact (emoji-only labels)
+ * - world, presidents, ...: overlays, as on the timeline page (?world=0&presidents=1)
+ * - privacy: default, month (personal dates as month/year) or hidden (no dates or details)
+ * - width: image width in px (480-2400, default 960)
+ */
+
+import { PROFILES, getProfile } from '../../config/profiles'
+import { loadProfileTimeline } from '../../lib/profile-timeline'
+import { parseOverlayParams } from '../../utils/overlay-params'
+import { parseSvgExportOptions, renderTimelineSvg } from '../../utils/svg-export'
+
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const profile = getProfile(searchParams.get('person') ?? PROFILES[0].slug)
+  if (!profile) {
+    return new Response('Unknown profile', { status: 404 })
+  }
+
+  const timeline = loadProfileTimeline(profile)
+  const overlays = parseOverlayParams(Object.fromEntries(searchParams), timeline.derivedConfig.config)
+  const svg = renderTimelineSvg(timeline, overlays, parseSvgExportOptions(searchParams))
+
+  return new Response(svg, {
+    headers: { 'Content-Type': 'image/svg+xml; charset=utf-8' }
+  })
+}
@@ -0,0 +1,36 @@
+/**
+ * Life in Weeks - Atom Feed (Route Handler)
+ * 
+ * GET /api/feed.xml lists a profile's events newest first, for feed readers:
+ * 
+ * - person: profile slug (default: the first profile)
+ * - world, presidents, ...: overlays, as on the timeline page (?world=0&presidents=1)
+ * 
+ * Each entry links to its week in the grid (#week-YYYY-MM-DD); private dates are
+ * rounded to the first of their month, as on the site
+ */
+
+import { PROFILES, getProfile } from '../../config/profiles'
+import { loadProfileTimeline } from '../../lib/profile-timeline'
+import { renderAtomFeed } from '../../lib/atom-feed'
+import { parseOverlayParams } from '../../utils/overlay-params'
+
+export function GET(request: Request) {
+  const url = new URL(request.url)
+  const profile = getProfile(url.searchParams.get('person') ?? PROFILES[0].slug)
+  if (!profile) {
+    return new Response('Unknown profile', { status: 404 })
+  }
+
+  const timeline = loadProfileTimeline(profile)
+  const overlays = parseOverlayParams(Object.fromEntries(url.searchParams), timeline.derivedConfig.config)
+  const siteUrl = process.env.SITE_URL ?? url.origin
+  const feed = renderAtomFeed(timeline, overlays, {
+    siteUrl,
+    selfUrl: new URL(`${url.pathname}${url.search}`, siteUrl).toString()
+  })
+
+  return new Response(feed, {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' }
+  })
+}
@@ -0,0 +1,31 @@
+/**
+ * Life in Weeks - Timeline JSON (Route Handler)
+ * 
+ * GET /api/timeline returns a profile's computed boxes (type, week date, age, label,
+ * color and events) as versioned JSON for dashboards and other tools:
+ * 
+ * - person: profile slug (default: the first profile)
+ * - world, presidents, ...: overlays, as on the timeline page (?world=0&presidents=1)
+ * 
+ * Redaction happens here on the server: the birth date and private-date events are
+ * reduced to their month, and the response is refused if a private event still shows its day
+ */
+
+import { PROFILES, getProfile } from '../../config/profiles'
+import { loadProfileTimeline } from '../../lib/profile-timeline'
+import { getServerConfig } from '../../lib/server-config'
+import { createTimelineJson } from '../../lib/timeline-json'
+import { parseOverlayParams } from '../../utils/overlay-params'
+
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const profile = getProfile(searchParams.get('person') ?? PROFILES[0].slug)
+  if (!profile) {
+    return Response.json({ error: 'Unknown profile' }, { status: 404 })
+  }
+
+  const timeline = loadProfileTimeline(profile)
+  const overlays = parseOverlayParams(Object.fromEntries(searchParams), timeline.derivedConfig.config)
+
+  return Response.json(createTimelineJson(timeline, overlays, getServerConfig(profile).PRIVATE_DATES))
+}
@@ -0,0 +1,28 @@
+/**
+ * Life in Weeks - Comparison Page (Server Component)
+ * 
+ * Shows two profiles one above the other, aligned by age (/compare/ran/alex)
+ * Each profile's private dates are loaded server-side exactly as on its own page
+ */
+
+import { notFound } from 'next/navigation'
+import { getProfile } from '../../../config/profiles'
+import { loadProfileTimeline } from '../../../lib/profile-timeline'
+import { ComparisonView } from '../../../components/comparison-view'
+import '../../../weeks.css'
+
+interface ComparePageProps {
+  params: Promise<{ a: string, b: string }>
+}
+
+export default async function ComparePage({ params }: ComparePageProps) {
+  const { a, b } = await params
+  const profiles = [getProfile(a), getProfile(b)]
+  if (profiles.some(profile => !profile)) {
+    notFound()
+  }
+
+  const timelines = profiles.map(profile => loadProfileTimeline(profile!))
+
+  return <ComparisonView timelines={timelines} />
+}
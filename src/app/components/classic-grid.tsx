@@ -0,0 +1,110 @@
+'use client'
+
+// ClassicGrid Component - Fixed 52-column grid, one row per year of age
+// The original Wait But Why layout, for comparing the same week across years
+
+import React, { useMemo, useRef, forwardRef } from 'react'
+import { EventsData, WeeksConfig } from '../data/life-events'
+import { createSpanStyle } from '../utils/grid-layout'
+import { getTimeline } from '../utils/timeline'
+import { layoutClassicRows, groupClassicRowsByDecade, CLASSIC_COLUMNS, WEEK_AXIS_LABELS, AGE_LABEL_INTERVAL } from '../utils/classic-layout'
+import { formatTooltipDate, getDecadeMilestones } from '../utils/date-processing'
+import { getOverlay } from '../data/overlays'
+import { OverlaySettings } from '../utils/overlay-params'
+import { LifeExpectancyProjection } from '../utils/life-expectancy'
+import { findBoxDateForDate } from '../utils/week-permalink'
+import { useLinkedDate, useScrollToLinked } from '../utils/linked-week'
+import { WeekBox } from './week-box'
+
+interface ClassicGridProps {
+  lifeEvents: EventsData
+  weeksConfig: WeeksConfig
+  overlays: OverlaySettings    // Which overlay datasets to merge in
+  showPersonalEventDates: boolean  // Full dates in personal event tooltips (false = month/year only)
+  lifeExpectancy?: LifeExpectancyProjection | null  // Survival shading and percentile markers
+  activeTag?: string | null   // Dim every week without this tag
+  showDecadeHeadings?: boolean  // Heading above each decade
+}
+
+export const ClassicGrid = forwardRef<HTMLDivElement, ClassicGridProps>(
+  function ClassicGrid({ lifeEvents, weeksConfig, overlays, showPersonalEventDates, lifeExpectancy = null, activeTag = null, showDecadeHeadings = false }, ref) {
+  const currentDate = new Date()
+  
+  // Cells are too small for text, so events use their compact (emoji) labels
+  const { boxes } = useMemo(() => getTimeline(lifeEvents, weeksConfig, {
+    overlays,
+    isCompactMode: true,
+    showPersonalEventDates,
+    lifeExpectancy
+  }), [lifeEvents, weeksConfig, overlays, showPersonalEventDates, lifeExpectancy])
+  
+  const rows = useMemo(() => layoutClassicRows(boxes, weeksConfig), [boxes, weeksConfig])
+  
+  // One section per decade of rows (anchors for the sticky navigation)
+  const decades = useMemo(() => groupClassicRowsByDecade(rows), [rows])
+  const decadeLabels = useMemo(
+    () => new Map(getDecadeMilestones(weeksConfig.endYear, weeksConfig.startYear).map(decade => [decade.id, decade.label])),
+    [weeksConfig.endYear, weeksConfig.startYear]
+  )
+  
+  // Permalinks (#week-YYYY-MM-DD) center and highlight the linked week
+  const gridRef = useRef<HTMLDivElement>(null)
+  const linkedDate = useLinkedDate()
+  const linkedBoxDate = useMemo(
+    () => (linkedDate ? findBoxDateForDate(boxes.map(box => box.date), linkedDate) : null),
+    [boxes, linkedDate]
+  )
+  useScrollToLinked(gridRef, linkedBoxDate ? `[data-date="${linkedBoxDate}"]` : null, rows)
+  
+  return (
+    <div ref={ref} className="weeks-grid-container classic-mode">
+      <div ref={gridRef} className="classic-grid" role="grid" aria-label="Life in weeks, one row per year">
+        <div className="classic-row classic-week-axis" aria-hidden="true">
+          <span className="classic-age-label" />
+          {Array.from({ length: CLASSIC_COLUMNS }, (_, column) => (
+            <span key={column} className="classic-week-label">
+              {WEEK_AXIS_LABELS.includes(column + 1) ? column + 1 : ''}
+            </span>
+          ))}
+        </div>
+        {decades.map(decade => (
+          <div key={decade.age} id={`decade-${decade.age}`} data-decade={decade.age} className="classic-decade">
+            {showDecadeHeadings && (
+              <h2 className="decade-heading">{decadeLabels.get(`decade-${decade.age}`) ?? `${decade.age}s`}</h2>
+            )}
+            {decade.rows.map(row => (
+              <div key={row.age} className="classic-row" role="row">
+                <span className="classic-age-label" title={`Age ${row.age} (from ${formatTooltipDate(row.birthday, showPersonalEventDates)})`}>
+                  {row.age % AGE_LABEL_INTERVAL === 0 ? row.age : ''}
+                </span>
+                {row.cells.map((box, column) => {
+                  if (!box) {
+                    return <span key={column} className="classic-cell classic-empty" />
+                  }
+              
+                  const isFuture = new Date(box.date) > currentDate
+                  const isDimmed = activeTag !== null && !box.tags?.includes(activeTag)
+              
+                  return (
+                    <WeekBox
+                      key={column}
+                      box={box}
+                      className={`classic-cell ${isFuture ? 'future-date' : ''} ${isDimmed ? 'dimmed' : ''} ${box.date === linkedBoxDate ? 'linked-week' : ''}`}
+                      style={{
+                        backgroundColor: isFuture ? '#f0f0f0' : box.color,
+                        border: '1px solid #ccc',
+                        ...getOverlay(box.eventType)?.style,
+                        ...createSpanStyle(box.spans)
+                      }}
+                      isCompactMode
+                    />
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+})
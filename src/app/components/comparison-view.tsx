@@ -0,0 +1,156 @@
+'use client'
+
+// ComparisonView Component - Two timelines stacked and aligned by age
+// Each year of age shows one row group per person, so "what was each of us doing at 25?"
+// can be read straight down the page
+
+import React, { useState, useEffect, useRef, useMemo } from 'react'
+import type { ProfileTimeline } from '../lib/profile-timeline'
+import { processBoxesIntoRows, createSpanStyle } from '../utils/grid-layout'
+import { getTimeline } from '../utils/timeline'
+import { useBoxMetrics } from '../utils/box-metrics'
+import { 
+  groupBoxesByAge, 
+  isMilestoneBox, 
+  getMilestoneAges, 
+  getOverlappingMilestoneAges 
+} from '../utils/age-comparison'
+import { CompactToggle } from './compact-toggle'
+import { WeekBox } from './week-box'
+import { Footer } from './footer'
+
+// Overlays are calendar based, so they stay off when lives are aligned by age
+const NO_OVERLAYS = {}
+
+interface ComparisonViewProps {
+  timelines: ProfileTimeline[]
+}
+
+export function ComparisonView({ timelines }: ComparisonViewProps) {
+  // Default to compact mode on mobile, standard on desktop
+  const [isCompactMode, setIsCompactMode] = useState(() => {
+    if (typeof window === 'undefined') {
+      return timelines[0].derivedConfig.config.defaultCompactMode // Server-side fallback
+    }
+    return window.innerWidth <= 768 // Mobile/tablet uses compact mode
+  })
+  
+  const [containerWidth, setContainerWidth] = useState<number>(0)
+  const gridContainerRef = useRef<HTMLDivElement>(null)
+  
+  // Rows are broken against the measured container width, like the main grid
+  useEffect(() => {
+    if (!gridContainerRef.current) return
+    
+    const resizeObserver = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        if (entry.contentRect.width > 0) {
+          setContainerWidth(entry.contentRect.width)
+        }
+      }
+    })
+    
+    resizeObserver.observe(gridContainerRef.current)
+    return () => resizeObserver.disconnect()
+  }, [])
+  
+  const boxMetrics = useBoxMetrics(gridContainerRef, isCompactMode, containerWidth)
+  
+  // Generate each person's boxes with the same logic as the main grid, then group by age
+  const people = useMemo(() => timelines.map(({ lifeEvents, weeksConfig, derivedConfig, lifeExpectancy }) => {
+    const timeline = getTimeline(lifeEvents, weeksConfig, {
+      overlays: NO_OVERLAYS,
+      isCompactMode,
+      showPersonalEventDates: derivedConfig.config.showPersonalEventDates,
+      lifeExpectancy
+    })
+    const boxesByAge = groupBoxesByAge(timeline.boxes, weeksConfig.startYear)
+    
+    return {
+      ...timeline,
+      derivedConfig,
+      boxesByAge,
+      milestoneAges: getMilestoneAges(boxesByAge, timeline.milestoneWeeks)
+    }
+  }), [timelines, isCompactMode])
+  
+  const overlapAges = getOverlappingMilestoneAges(people.map(person => person.milestoneAges))
+  const maxAge = Math.max(...people.map(person => person.derivedConfig.config.maxAge))
+  const currentDate = new Date()
+  
+  return (
+    <div className="life-in-weeks-container">
+      <div className="life-in-weeks">
+        <h1>{people.map(person => person.derivedConfig.name).join(' & ')}</h1>
+        <div className="intro-content">
+          <p>Each week is a little box, lined up by age instead of by calendar date. ✨ marks the ages where both had a milestone.</p>
+          <ul className="comparison-legend">
+            {people.map((person, index) => (
+              <li key={person.derivedConfig.slug} className={`comparison-person-${index}`}>
+                <a href={`/${person.derivedConfig.slug}`}>{person.derivedConfig.name}</a> (born {person.derivedConfig.birthYear})
+              </li>
+            ))}
+          </ul>
+          <CompactToggle isCompact={isCompactMode} onToggle={setIsCompactMode} />
+        </div>
+        
+        <div 
+          ref={gridContainerRef}
+          className={`weeks-grid-container comparison-grid ${isCompactMode ? 'compact-mode' : ''}`}
+        >
+          {Array.from({ length: maxAge + 1 }, (_, age) => {
+            const isOverlap = overlapAges.has(age)
+            
+            return (
+              <section 
+                key={`age-${age}`} 
+                id={`age-${age}`} 
+                className={`comparison-age ${isOverlap ? 'milestone-overlap' : ''}`.trim()}
+              >
+                <div className="comparison-age-label">
+                  Age {age}{isOverlap ? ' ✨' : ''}
+                </div>
+                {people.map((person, personIndex) => {
+                  const rows = processBoxesIntoRows(
+                    person.boxesByAge.get(age) ?? [], 
+                    isCompactMode, 
+                    containerWidth > 0 ? containerWidth : undefined,
+                    boxMetrics
+                  )
+                  
+                  return rows.map((row, rowIndex) => (
+                    <div 
+                      key={`${person.derivedConfig.slug}-${age}-${rowIndex}`} 
+                      className={`row-wrapper comparison-person-${personIndex}`}
+                    >
+                      {row.map((box, boxIndex) => {
+                        const isFuture = new Date(box.date) > currentDate
+                        const backgroundColor = isFuture ? '#f0f0f0' : box.color
+                        const isSharedMilestone = isOverlap && isMilestoneBox(box, person.milestoneWeeks)
+                        
+                        return (
+                          <WeekBox
+                            key={`${box.date}-${boxIndex}`}
+                            box={box}
+                            className={`${isFuture ? 'future-date' : ''} ${isSharedMilestone ? 'shared-milestone' : ''}`.trim()}
+                            style={{
+                              backgroundColor,
+                              border: '1px solid #ccc',
+                              ...createSpanStyle(box.spans)
+                            }}
+                            isCompactMode={isCompactMode}
+                          />
+                        )
+                      })}
+                    </div>
+                  ))
+                })}
+              </section>
+            )
+          })}
+        </div>
+        <Footer />
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import React, { useState, useRef, useEffect } from 'react'
 import { createPortal } from 'react-dom'
+import { LinkifiedText } from './linkified-text'
 
 interface CustomTooltipProps {
   content: string
@@ -178,34 +179,6 @@ export function CustomTooltip({ content, children }: CustomTooltipProps) {
     }
   }, [isSticky])
 
-  // Format content with clickable links
-  const formatContent = (text: string) => {
-    const urlRegex = /(https?:\/\/[^\s]+)/g
-    const parts = text.split(urlRegex)
-    
-    return parts.map((part, index) => {
-      if (part.match(urlRegex)) {
-        return (
-          <a 
-            key={index} 
-            href={part} 
-            target="_blank" 
-            rel="noopener noreferrer"
-            style={{ 
-              color: '#60a5fa', 
-              textDecoration: 'underline',
-              cursor: 'pointer'
-            }}
-            onClick={(e) => e.stopPropagation()}
-          >
-            {part}
-          </a>
-        )
-      }
-      return <span key={index}>{part}</span>
-    })
-  }
-
   const renderTooltip = () => {
     if (!isVisible || !content || typeof window === 'undefined') return null
 
@@ -238,7 +211,10 @@ export function CustomTooltip({ content, children }: CustomTooltipProps) {
           whiteSpace: 'pre-wrap', 
           wordBreak: 'break-word'
         }}>
-          {formatContent(content)}
+          <LinkifiedText
+            text={content}
+            linkStyle={{ color: '#60a5fa', textDecoration: 'underline', cursor: 'pointer' }}
+          />
         </div>
       </div>,
       document.body
@@ -0,0 +1,46 @@
+'use client'
+
+import React from 'react'
+import { GRANULARITIES, Granularity } from '../utils/granularity'
+
+interface GranularityToggleProps {
+  granularity: Granularity
+  setGranularity: (granularity: Granularity) => void
+  dayViewAge: number             // Year of age shown by the days view
+  setDayViewAge: (age: number) => void
+  birthYear: number
+  maxAge: number
+}
+
+export function GranularityToggle({ granularity, setGranularity, dayViewAge, setDayViewAge, birthYear, maxAge }: GranularityToggleProps) {
+  return (
+    <div className="granularity-toggle" role="group" aria-label="Time per box">
+      {GRANULARITIES.map(({ id, label, title }) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => setGranularity(id)}
+          className={`toggle-button ${granularity === id ? 'view-active' : ''}`}
+          aria-pressed={granularity === id}
+          title={title}
+        >
+          {label}
+        </button>
+      ))}
+      {granularity === 'days' && (
+        <select
+          className="day-view-age"
+          value={dayViewAge}
+          onChange={(event) => setDayViewAge(Number(event.target.value))}
+          aria-label="Year of age to show"
+        >
+          {Array.from({ length: maxAge + 1 }, (_, age) => (
+            <option key={age} value={age}>
+              Age {age} ({birthYear + age}–{String(birthYear + age + 1).slice(2)})
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
@@ -1,31 +1,96 @@
 'use client'
 
 import React from 'react'
+import { DerivedConfig } from '../config/app-config'
+import { OVERLAYS } from '../data/overlays'
+import { OverlaySettings } from '../utils/overlay-params'
+import { Granularity } from '../utils/granularity'
+import { ViewMode, ViewToggle, WEEKS_ONLY_VIEWS } from './view-toggle'
+import { GranularityToggle } from './granularity-toggle'
+import { ZoomControl } from './zoom-control'
 
 interface IntroContentProps {
-  isCompactMode: boolean
-  setIsCompactMode: (compact: boolean) => void
+  derivedConfig: DerivedConfig
+  viewMode: ViewMode
+  setViewMode: (mode: ViewMode) => void
+  granularity: Granularity
+  setGranularity: (granularity: Granularity) => void
+  dayViewAge: number
+  setDayViewAge: (age: number) => void
+  zoom: number
+  setZoom: (zoom: number) => void
+  overlays: OverlaySettings
+  setOverlays: (overlays: OverlaySettings) => void
 }
 
-export function IntroContent({ isCompactMode, setIsCompactMode }: IntroContentProps) {
+// Render [text](url) links inside a profile's intro line
+function renderIntro(text: string) {
+  const linkRegex = /\[([^\]]+)\]\(([^)\s]+)\)/g
+  const parts: React.ReactNode[] = []
+  let lastIndex = 0
+  
+  for (const match of text.matchAll(linkRegex)) {
+    parts.push(text.slice(lastIndex, match.index))
+    parts.push(<a key={match.index} href={match[2]}>{match[1]}</a>)
+    lastIndex = (match.index ?? 0) + match[0].length
+  }
+  parts.push(text.slice(lastIndex))
+  
+  return parts
+}
+
+export function IntroContent({ 
+  derivedConfig, 
+  viewMode, 
+  setViewMode, 
+  granularity, 
+  setGranularity, 
+  dayViewAge, 
+  setDayViewAge, 
+  zoom, 
+  setZoom, 
+  overlays, 
+  setOverlays 
+}: IntroContentProps) {
+  const { name, website } = derivedConfig
+  const intro = derivedConfig.intro ?? 
+    `👋 Hi, I'm ${website ? `[${name}](${website})` : name}. Each week of my life is a little box.`
+  
   return (
     <div className="intro-content">
       <div className="mt-3">
-        <p>👋 Hi, I&apos;m <a href="https://dingran.me">Ran Ding</a>. Each week of my life is a little box.</p>
+        <p>{renderIntro(intro)}</p>
         
         <p>💡 Inspired by <a href="https://waitbutwhy.com/2014/05/life-weeks.html">Wait But Why</a>. Adapted from <a href="https://github.com/ginatrapani/life-in-weeks">Gina&apos;s work</a>.<br/>
         💻 My code is <a href="https://github.com/dingran/life-in-weeks-nextjs">here</a>. Also <a href="https://www.coryzue.com/">Cory</a> built <a href="https://lifeweeks.app/">an app</a> for this.</p>
       </div>
       
       <div className="compact-toggle" style={{ textAlign: 'center', marginTop: '0.75rem', marginBottom: '0.5rem' }}>
-        <button
-          type="button"
-          onClick={() => setIsCompactMode(!isCompactMode)}
-          className={`toggle-button ${isCompactMode ? 'compact-active' : 'standard-active'}`}
-          title={isCompactMode ? 'Switch to Standard View' : 'Switch to Compact View (fits entire life on screen)'}
-        >
-          {isCompactMode ? '📋 Switch to Standard View' : '🔍 Switch to Compact View'}
-        </button>
+        <ViewToggle viewMode={viewMode} setViewMode={setViewMode} />
+        {OVERLAYS.map(overlay => (
+          <button
+            key={overlay.id}
+            type="button"
+            onClick={() => setOverlays({ ...overlays, [overlay.id]: !overlays[overlay.id] })}
+            className={`toggle-button overlay-toggle ${overlays[overlay.id] ? 'overlay-active' : ''}`}
+            aria-pressed={overlays[overlay.id]}
+            title={`${overlays[overlay.id] ? 'Hide' : 'Show'} ${overlay.label}`}
+          >
+            {overlay.label}
+          </button>
+        ))}
+        <GranularityToggle
+          granularity={granularity}
+          setGranularity={setGranularity}
+          dayViewAge={dayViewAge}
+          setDayViewAge={setDayViewAge}
+          birthYear={derivedConfig.birthYear}
+          maxAge={derivedConfig.config.maxAge}
+        />
+        {!WEEKS_ONLY_VIEWS.includes(viewMode) && <ZoomControl zoom={zoom} setZoom={setZoom} />}
+        <a className="toggle-button poster-link" href={`/${derivedConfig.slug}/poster`} title="Printable wall poster">
+          🖼️ Poster
+        </a>
       </div>
     </div>
   )
@@ -1,33 +1,80 @@
 'use client'
 
-import React, { useState, useRef } from 'react'
+import React, { useState, useRef, useMemo, useEffect } from 'react'
 import { StickyHeader } from './sticky-header'
 import { IntroContent } from './intro-content'
+import { TagFilterBar } from './tag-filter-bar'
 import { WeeksGrid } from './weeks-grid'
+import { ClassicGrid } from './classic-grid'
+import { YearList } from './year-list'
+import { ViewMode, WEEKS_ONLY_VIEWS } from './view-toggle'
 import { Footer } from './footer'
-import { APP_CONFIG, DerivedConfig } from '../config/app-config'
+import { DerivedConfig } from '../config/app-config'
 import { EventsData, WeeksConfig } from '../data/life-events'
+import { getTagCounts } from '../utils/tags'
+import { OverlaySettings, applyOverlayParams } from '../utils/overlay-params'
+import { DEFAULT_GRANULARITY, Granularity, getAgeOnDate } from '../utils/granularity'
+import { formatDateString } from '../utils/date-processing'
+import { useActiveDecade } from '../utils/active-decade'
+import { usePersistentZoom, useZoomGestures } from '../utils/zoom'
+import { LifeExpectancyProjection } from '../utils/life-expectancy'
 
 interface LifeWeeksClientProps {
   lifeEvents: EventsData
   weeksConfig: WeeksConfig
   derivedConfig: DerivedConfig
+  lifeExpectancy: LifeExpectancyProjection | null
+  initialOverlays: OverlaySettings
 }
 
 /**
  * Client Component for Life in Weeks visualization
- * Handles interactive state like compact mode toggle
+ * Handles interactive state like compact mode toggle, overlay toggles and tag filter
  */
-export function LifeWeeksClient({ lifeEvents, weeksConfig, derivedConfig }: LifeWeeksClientProps) {
-  // Default to compact mode on mobile, standard on desktop
-  const [isCompactMode, setIsCompactMode] = useState(() => {
-    if (typeof window === 'undefined') {
-      return APP_CONFIG.defaultCompactMode // Server-side fallback
+export function LifeWeeksClient({ lifeEvents, weeksConfig, derivedConfig, lifeExpectancy, initialOverlays }: LifeWeeksClientProps) {
+  // Default to compact mode on mobile, standard on desktop; the first render matches the
+  // server markup, and the viewport is only read after mount
+  const [viewMode, setViewMode] = useState<ViewMode>(derivedConfig.config.defaultCompactMode ? 'compact' : 'standard')
+  useEffect(() => {
+    setViewMode(window.innerWidth <= 768 ? 'compact' : 'standard') // Mobile/tablet uses compact mode
+  }, [])
+  const isCompactMode = viewMode === 'compact'
+  
+  // Time per box; the classic grid and the year list only exist for weeks
+  const [granularity, setGranularity] = useState<Granularity>(DEFAULT_GRANULARITY)
+  const [dayViewAge, setDayViewAge] = useState(() => getAgeOnDate(weeksConfig, formatDateString(new Date())))
+  
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode)
+    if (WEEKS_ONLY_VIEWS.includes(mode)) setGranularity('weeks')
+  }
+  
+  const changeGranularity = (next: Granularity) => {
+    setGranularity(next)
+    if (next !== 'weeks' && WEEKS_ONLY_VIEWS.includes(viewMode)) setViewMode('standard')
+  }
+  
+  // Overlays start from the URL (or config defaults) and are kept in the URL for sharing
+  const [overlays, setOverlays] = useState<OverlaySettings>(initialOverlays)
+  
+  useEffect(() => {
+    const url = applyOverlayParams(new URL(window.location.href), overlays, derivedConfig.config)
+    if (url.href !== window.location.href) {
+      window.history.replaceState(window.history.state, '', url)
     }
-    return window.innerWidth <= 768 // Mobile/tablet uses compact mode
-  })
+  }, [overlays, derivedConfig.config])
+  
+  const [activeTag, setActiveTag] = useState<string | null>(null)
+  const tagCounts = useMemo(() => getTagCounts(lifeEvents), [lifeEvents])
   
   const gridRef = useRef<HTMLDivElement>(null)
+  
+  // Continuous zoom of the flowing grid (not the classic grid or year list), kept between visits
+  const [zoom, setZoom] = usePersistentZoom()
+  useZoomGestures(gridRef, zoom, setZoom, !WEEKS_ONLY_VIEWS.includes(viewMode))
+  
+  // Decade sections only change with the view, granularity or shown year
+  const activeDecade = useActiveDecade(gridRef, `${viewMode}-${granularity}-${dayViewAge}`)
 
   return (
     <div className="life-in-weeks-container">
@@ -35,17 +82,63 @@ export function LifeWeeksClient({ lifeEvents, weeksConfig, derivedConfig }: Life
         <StickyHeader 
           derivedConfig={derivedConfig}
           gridRef={gridRef}
+          activeDecade={activeDecade}
         />
         <IntroContent 
-          isCompactMode={isCompactMode}
-          setIsCompactMode={setIsCompactMode}
+          derivedConfig={derivedConfig}
+          viewMode={viewMode}
+          setViewMode={changeViewMode}
+          granularity={granularity}
+          setGranularity={changeGranularity}
+          dayViewAge={dayViewAge}
+          setDayViewAge={setDayViewAge}
+          zoom={zoom}
+          setZoom={setZoom}
+          overlays={overlays}
+          setOverlays={setOverlays}
         />
-        <WeeksGrid 
-          ref={gridRef}
-          isCompactMode={isCompactMode}
-          lifeEvents={lifeEvents}
-          weeksConfig={weeksConfig}
+        <TagFilterBar
+          tagCounts={tagCounts}
+          activeTag={activeTag}
+          setActiveTag={setActiveTag}
         />
+        {viewMode === 'list' ? (
+          <YearList
+            ref={gridRef}
+            lifeEvents={lifeEvents}
+            weeksConfig={weeksConfig}
+            overlays={overlays}
+            showPersonalEventDates={derivedConfig.config.showPersonalEventDates}
+            lifeExpectancy={lifeExpectancy}
+            activeTag={activeTag}
+          />
+        ) : viewMode === 'classic' ? (
+          <ClassicGrid
+            ref={gridRef}
+            lifeEvents={lifeEvents}
+            weeksConfig={weeksConfig}
+            overlays={overlays}
+            showPersonalEventDates={derivedConfig.config.showPersonalEventDates}
+            lifeExpectancy={lifeExpectancy}
+            activeTag={activeTag}
+            showDecadeHeadings={derivedConfig.config.showDecadeHeadings}
+          />
+        ) : (
+          <WeeksGrid 
+            ref={gridRef}
+            isCompactMode={isCompactMode}
+            granularity={granularity}
+            dayViewAge={dayViewAge}
+            lifeEvents={lifeEvents}
+            weeksConfig={weeksConfig}
+            overlays={overlays}
+            showPersonalEventDates={derivedConfig.config.showPersonalEventDates}
+            lifeExpectancy={lifeExpectancy}
+            activeTag={activeTag}
+            showDecadeHeadings={derivedConfig.config.showDecadeHeadings}
+            zoom={zoom}
+          />
+        )}
         <Footer />
       </div>
     </div>
@@ -0,0 +1,33 @@
+'use client'
+
+// LinkifiedText Component - Text with its URLs turned into links that open in a new tab
+
+import React from 'react'
+import { splitLinks } from '../utils/linkify'
+
+interface LinkifiedTextProps {
+  text: string
+  linkStyle?: React.CSSProperties
+}
+
+export function LinkifiedText({ text, linkStyle }: LinkifiedTextProps) {
+  return (
+    <>
+      {splitLinks(text).map((segment, index) => segment.href ? (
+        <a
+          key={index}
+          href={segment.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          style={linkStyle}
+          // Keep the click from closing a sticky tooltip or toggling a card
+          onClick={(e) => e.stopPropagation()}
+        >
+          {segment.text}
+        </a>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  )
+}
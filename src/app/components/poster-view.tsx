@@ -0,0 +1,125 @@
+// PosterView Component - A whole life on one printed page
+// Server-rendered classic grid sized in millimetres for the chosen paper, with a title block
+// and milestone legend; only the paper picker and print button are interactive (hidden in print)
+
+import React from 'react'
+import type { ProfileTimeline } from '../lib/profile-timeline'
+import { getTimeline } from '../utils/timeline'
+import { layoutClassicRows, CLASSIC_COLUMNS, WEEK_AXIS_LABELS, AGE_LABEL_INTERVAL } from '../utils/classic-layout'
+import { formatDateString } from '../utils/date-processing'
+import { createSurvivalStyle } from '../utils/life-expectancy'
+import { OverlaySettings, applyOverlayParams } from '../utils/overlay-params'
+import { PAPER_SIZES, PaperSize, getPosterLayout, getMilestoneLegend } from '../utils/poster-layout'
+import { PrintButton } from './print-button'
+
+interface PosterViewProps {
+  timeline: ProfileTimeline
+  paperSize: PaperSize
+  overlays: OverlaySettings    // Which overlay datasets to merge in
+}
+
+export function PosterView({ timeline, paperSize, overlays }: PosterViewProps) {
+  const { lifeEvents, weeksConfig, derivedConfig, lifeExpectancy } = timeline
+  const today = formatDateString(new Date())
+
+  // Cells are too small for text, so events use their compact (emoji) labels
+  const { boxes } = getTimeline(lifeEvents, weeksConfig, {
+    overlays,
+    isCompactMode: true,
+    showPersonalEventDates: derivedConfig.config.showPersonalEventDates,
+    lifeExpectancy
+  })
+  const rows = layoutClassicRows(boxes, weeksConfig)
+  const legend = getMilestoneLegend(boxes, lifeEvents)
+  const layout = getPosterLayout(paperSize, rows.length)
+
+  // Paper links keep the overlay settings of the current URL
+  const getPaperHref = (size: PaperSize) => {
+    const url = applyOverlayParams(new URL(`/${derivedConfig.slug}/poster`, 'http://localhost'), overlays, derivedConfig.config)
+    url.searchParams.set('size', size)
+    return `${url.pathname}${url.search}`
+  }
+
+  const sheetStyle = {
+    width: `${layout.width}mm`,
+    height: `${layout.height}mm`,
+    padding: `${layout.margin}mm`,
+    '--poster-cell': `${layout.cellSize}mm`,
+    '--poster-title': `${layout.titleSize}mm`,
+    '--poster-text': `${layout.textSize}mm`
+  } as React.CSSProperties
+
+  return (
+    <div className="poster-page">
+      <style>{`@page { size: ${layout.width}mm ${layout.height}mm; margin: 0; }`}</style>
+
+      <nav className="poster-controls" aria-label="Poster options">
+        <a href={`/${derivedConfig.slug}`}>← Back</a>
+        <span className="poster-sizes">
+          {Object.entries(PAPER_SIZES).map(([size, paper]) => (
+            <a
+              key={size}
+              href={getPaperHref(size as PaperSize)}
+              className={`toggle-button ${size === paperSize ? 'view-active' : ''}`}
+              aria-current={size === paperSize ? 'page' : undefined}
+            >
+              {paper.label}
+            </a>
+          ))}
+        </span>
+        <PrintButton />
+      </nav>
+
+      <div className="poster-sheet" style={sheetStyle}>
+        <header className="poster-title">
+          <h1>{derivedConfig.title}</h1>
+          <p>{derivedConfig.birthYear}–{derivedConfig.endYear} · one box per week, one row per year of age</p>
+        </header>
+
+        <div className="poster-grid" role="img" aria-label={`${derivedConfig.title}, one row per year`}>
+          <div className="poster-row" aria-hidden="true">
+            <span className="poster-age-label" />
+            {Array.from({ length: CLASSIC_COLUMNS }, (_, column) => (
+              <span key={column} className="poster-axis-label">
+                {WEEK_AXIS_LABELS.includes(column + 1) ? column + 1 : ''}
+              </span>
+            ))}
+          </div>
+          {rows.map(row => (
+            <div key={row.age} className="poster-row">
+              <span className="poster-age-label">{row.age % AGE_LABEL_INTERVAL === 0 ? row.age : ''}</span>
+              {row.cells.map((box, column) => {
+                if (!box) return <span key={column} className="poster-cell poster-empty" />
+
+                const isFuture = box.date > today
+                return (
+                  <span
+                    key={column}
+                    className={`poster-cell ${isFuture ? 'poster-future' : ''}`.trim()}
+                    style={{ backgroundColor: isFuture ? undefined : box.color, ...createSurvivalStyle(box.survival) }}
+                  >
+                    {box.type === 'week' ? '' : box.label}
+                  </span>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+
+        <footer className="poster-legend">
+          <ul>
+            {legend.map(entry => (
+              <li key={`${entry.year}-${entry.headline}`}>
+                <span className="poster-swatch" style={{ backgroundColor: entry.color }} />
+                {entry.headline} <span className="poster-year">{entry.year}</span>
+              </li>
+            ))}
+          </ul>
+          {lifeExpectancy && (
+            <p>Future weeks fade with the chance of still being alive ({lifeExpectancy.tableLabel}).</p>
+          )}
+        </footer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import React from 'react'
+
+export function PrintButton() {
+  return (
+    <button type="button" className="toggle-button" onClick={() => window.print()}>
+      🖨️ Print
+    </button>
+  )
+}
@@ -0,0 +1,30 @@
+import { Profile } from '../config/profiles'
+import { Footer } from './footer'
+
+interface ProfileIndexProps {
+  profiles: Profile[]
+}
+
+/**
+ * Landing page listing every public profile, shown when more than one is configured
+ */
+export function ProfileIndex({ profiles }: ProfileIndexProps) {
+  return (
+    <div className="life-in-weeks-container">
+      <div className="life-in-weeks">
+        <h1>Life in Weeks</h1>
+        <div className="intro-content">
+          <p>Each week of a life is a little box. Pick a timeline:</p>
+          <ul className="profile-list">
+            {profiles.map(profile => (
+              <li key={profile.slug}>
+                <a href={`/${profile.slug}`}>{profile.name}</a>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  )
+}
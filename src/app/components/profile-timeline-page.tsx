@@ -0,0 +1,29 @@
+import { Profile } from '../config/profiles'
+import { loadProfileTimeline } from '../lib/profile-timeline'
+import { LifeWeeksClient } from './life-weeks-client'
+import { parseOverlayParams, SearchParams } from '../utils/overlay-params'
+
+interface ProfileTimelinePageProps {
+  profile: Profile
+  searchParams: SearchParams
+}
+
+/**
+ * Server Component rendering one profile's Life in Weeks timeline
+ * Private dates are resolved on the server, but the client receives them: the grid places
+ * birthdays and private events in their real weeks, so the birth date and the dates of
+ * private events are in the page payload. They are only hidden from labels and tooltips
+ */
+export function ProfileTimelinePage({ profile, searchParams }: ProfileTimelinePageProps) {
+  const { lifeEvents, weeksConfig, derivedConfig, lifeExpectancy } = loadProfileTimeline(profile)
+
+  return (
+    <LifeWeeksClient 
+      lifeEvents={lifeEvents}
+      weeksConfig={weeksConfig}
+      derivedConfig={derivedConfig}
+      lifeExpectancy={lifeExpectancy}
+      initialOverlays={parseOverlayParams(searchParams, derivedConfig.config)}
+    />
+  )
+}
@@ -10,12 +10,12 @@ import { DerivedConfig } from '../config/app-config'
 interface StickyHeaderProps {
   derivedConfig: DerivedConfig
   gridRef: RefObject<HTMLDivElement | null>
+  activeDecade: string          // Decade section under the header (see useActiveDecade)
 }
 
-export function StickyHeader({ derivedConfig, gridRef }: StickyHeaderProps) {
+export function StickyHeader({ derivedConfig, gridRef, activeDecade }: StickyHeaderProps) {
   const [isTitleSmall, setIsTitleSmall] = useState(false)
   const [isNavbarVisible, setIsNavbarVisible] = useState(false)
-  const [activeDecade, setActiveDecade] = useState('decade-0')
   const [navbarThreshold, setNavbarThreshold] = useState(150) // Fallback
   const titleRef = useRef<HTMLHeadingElement>(null)
   
@@ -57,50 +57,11 @@ export function StickyHeader({ derivedConfig, gridRef }: StickyHeaderProps) {
       
       // Navbar appears when grid reaches bottom of title
       setIsNavbarVisible(scrollY > navbarThreshold)
-      
-      // Find which decade should be active based on visible boxes
-      const weekBoxes = document.querySelectorAll('.week, .birthday, .event')
-      let currentDecade = 'decade-0'
-      
-      // Look for boxes that are currently visible in the viewport
-      for (const box of weekBoxes) {
-        const rect = box.getBoundingClientRect()
-        // Check if box is in the upper portion of viewport (within header area)
-        if (rect.top <= 150 && rect.bottom >= 50) {
-          // Try to get age from the box data or nearby elements
-          const boxElement = box as HTMLElement
-          const tooltip = boxElement.getAttribute('data-bs-title') || boxElement.title
-          
-          // Look for age pattern in tooltip or check if it's a birthday box
-          if (tooltip) {
-            // Birthday boxes have format like "Jan 1, 2000 – Turned 5 years old"
-            const ageMatch = tooltip.match(/Turned (\d+) years? old/)
-            if (ageMatch) {
-              const age = parseInt(ageMatch[1])
-              const decade = Math.floor(age / 10) * 10
-              currentDecade = `decade-${decade}`
-              break
-            }
-            
-            // For other boxes, try to extract year and calculate age
-            const yearMatch = tooltip.match(/(\w{3} \d{1,2}, (\d{4}))/)
-            if (yearMatch) {
-              const year = parseInt(yearMatch[2])
-              const age = year - derivedConfig.birthYear
-              const decade = Math.floor(Math.max(0, age) / 10) * 10
-              currentDecade = `decade-${decade}`
-              break
-            }
-          }
-        }
-      }
-      
-      setActiveDecade(currentDecade)
     }
     
     window.addEventListener('scroll', handleScroll, { passive: true })
     return () => window.removeEventListener('scroll', handleScroll)
-  }, [derivedConfig.birthYear, navbarThreshold])
+  }, [navbarThreshold])
   
   const decades = getDecadeMilestones(derivedConfig.endYear, derivedConfig.birthYear)
   
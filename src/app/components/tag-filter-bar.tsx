@@ -0,0 +1,51 @@
+'use client'
+
+import React from 'react'
+import { TagCount } from '../utils/tags'
+
+interface TagFilterBarProps {
+  tagCounts: TagCount[]
+  activeTag: string | null
+  setActiveTag: (tag: string | null) => void
+}
+
+/**
+ * Tag filter bar shown above the grid
+ * Choosing a tag dims every week without a matching event
+ */
+export function TagFilterBar({ tagCounts, activeTag, setActiveTag }: TagFilterBarProps) {
+  if (tagCounts.length === 0) return null
+  
+  const activeCount = tagCounts.find(({ tag }) => tag === activeTag)?.count ?? 0
+  
+  return (
+    <div className="tag-filter-bar">
+      <div className="tag-filter-buttons">
+        <button
+          type="button"
+          onClick={() => setActiveTag(null)}
+          className={`tag-filter-button ${activeTag === null ? 'active' : ''}`}
+        >
+          All
+        </button>
+        {tagCounts.map(({ tag, count }) => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+            className={`tag-filter-button ${activeTag === tag ? 'active' : ''}`}
+            title={`Show only ${tag} (${count} ${count === 1 ? 'event' : 'events'})`}
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+      
+      {activeTag !== null && (
+        <p className="tag-filter-count">
+          {activeCount} {activeCount === 1 ? 'event' : 'events'} tagged <strong>{activeTag}</strong>
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import React from 'react'
+
+export type ViewMode = 'standard' | 'compact' | 'classic' | 'list'
+
+// Views laid out by year of age, which only exist for weeks (and are not zoomable)
+export const WEEKS_ONLY_VIEWS: ViewMode[] = ['classic', 'list']
+
+const VIEW_MODES: { mode: ViewMode, label: string, title: string }[] = [
+  { mode: 'standard', label: '📋 Standard', title: 'Labeled events in flowing rows' },
+  { mode: 'compact', label: '🔍 Compact', title: 'Emoji-only events (fits entire life on screen)' },
+  { mode: 'classic', label: '🗓️ Classic', title: 'One row per year of age, 52 weeks across' },
+  { mode: 'list', label: '📜 List', title: 'One card per year of age with its events as text (best on phones)' },
+]
+
+interface ViewToggleProps {
+  viewMode: ViewMode
+  setViewMode: (mode: ViewMode) => void
+}
+
+export function ViewToggle({ viewMode, setViewMode }: ViewToggleProps) {
+  return (
+    <div className="view-toggle" role="group" aria-label="View">
+      {VIEW_MODES.map(({ mode, label, title }) => (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => setViewMode(mode)}
+          className={`toggle-button ${viewMode === mode ? 'view-active' : ''}`}
+          aria-pressed={viewMode === mode}
+          title={title}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
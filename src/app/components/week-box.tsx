@@ -5,6 +5,7 @@
 
 import React from 'react'
 import { GridBox } from '../utils/grid-layout'
+import { createSurvivalStyle } from '../utils/life-expectancy'
 import { CustomTooltip } from './custom-tooltip'
 
 interface WeekBoxProps {
@@ -16,7 +17,10 @@ interface WeekBoxProps {
 
 export function WeekBox({ box, className = '', style = {}, isCompactMode = false }: WeekBoxProps) {
   const compactClass = isCompactMode ? 'compact-cell' : ''
-  const baseClasses = `btn ${box.type} ${box.borderClass} ${box.backgroundClass} ${compactClass}`
+  // Life expectancy shading and percentile markers (drawn on top of milestone colors)
+  const survivalClass = box.survival !== undefined ? 'survival-shaded' : ''
+  const markerClasses = box.markers?.map(marker => `expectancy-marker expectancy-${marker.id}`).join(' ') ?? ''
+  const baseClasses = `btn ${box.type} ${box.borderClass} ${box.backgroundClass} ${compactClass} ${survivalClass} ${markerClasses}`
   const fullClassName = `${baseClasses} ${className}`.trim()
   
   // Additional classes based on box type
@@ -42,7 +46,7 @@ export function WeekBox({ box, className = '', style = {}, isCompactMode = false
       type="button"
       className={finalClassName}
       data-date={box.date}
-      style={style}
+      style={{ ...createSurvivalStyle(box.survival), ...style }}
     >
       {box.label}
     </button>
@@ -57,8 +61,9 @@ export function WeekBox({ box, className = '', style = {}, isCompactMode = false
     )
   } else {
     // Simple native tooltip for basic events/dates
+    // Empty weeks only get a title when a date-range event or marker covers them
     return React.cloneElement(buttonElement, { 
-      title: box.type === 'week' ? '' : box.tooltip 
+      title: box.type === 'week' && !box.spans?.length && !box.markers?.length ? '' : box.tooltip 
     })
   }
 }
\ No newline at end of file
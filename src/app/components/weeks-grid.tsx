@@ -3,86 +3,63 @@
 // WeeksGrid Component - Main grid with exact row-breaking algorithm
 // Matches Gina's life-in-weeks.html logic exactly
 
-import React, { useState, useEffect, useRef, useCallback, forwardRef } from 'react'
+import React, { useState, useEffect, useRef, useCallback, useMemo, forwardRef } from 'react'
 import { EventsData, WeeksConfig } from '../data/life-events'
-import { worldEvents } from '../data/world-events'
-import { usPresidents } from '../data/us-presidents'
-import { APP_CONFIG } from '../config/app-config'
-import { formatDateString, getAge, getWeekStartSunday } from '../utils/date-processing'
-import { 
-  GridBox, 
-  processBoxesIntoRows, 
-  createTooltip, 
-  createBirthdayLabel, 
-  createBirthdayTooltip,
-  createCompactEventLabel,
-  shouldShowInCompact
-} from '../utils/grid-layout'
-// Auto-generated milestone colors
-import { generateMilestoneColors } from '../utils/milestone-colors'
+import { calculateRowHeight, createSpanStyle, getDecadeStartIndices, groupRowsByDecade } from '../utils/grid-layout'
+import { getDecadeMilestones } from '../utils/date-processing'
+import { getTimeline } from '../utils/timeline'
+import { useRowLayout } from '../utils/row-layout'
+import { useBoxMetrics } from '../utils/box-metrics'
+import { getOverlay } from '../data/overlays'
+import { OverlaySettings } from '../utils/overlay-params'
+import { LifeExpectancyProjection } from '../utils/life-expectancy'
+import { Granularity } from '../utils/granularity'
+import { DEFAULT_ZOOM, DOTS_ZOOM, EMOJI_ONLY_ZOOM } from '../utils/zoom'
+import { findBoxDateForDate } from '../utils/week-permalink'
+import { useLinkedDate, useScrollToLinked } from '../utils/linked-week'
 import { WeekBox } from './week-box'
 
-// Extended event interface for merged events
-interface MergedEvent {
-  headline: string
-  description?: string
-  eventType: 'personal' | 'world' | 'president'
-  milestone?: boolean
-  color?: string
-  category?: string
-  party?: string
-  president?: string
-  termNumber?: number
-  based?: string
-  doing?: string
-  association?: string
-}
+// Rows rendered above and below the viewport, and before the first scroll measurement
+const OVERSCAN_ROWS = 10
+const INITIAL_VISIBLE_ROWS = 60
 
-// Merge all event sources based on config
-function getMergedEvents(lifeEvents: EventsData) {
-  const merged: Record<string, MergedEvent[]> = {}
-  
-  // Add personal events
-  Object.entries(lifeEvents).forEach(([date, events]) => {
-    merged[date] = events.map(event => ({
-      ...event,
-      eventType: 'personal' as const
-    }))
-  })
-  
-  // Add world events if enabled
-  if (APP_CONFIG.defaultShowWorldEvents) {
-    Object.entries(worldEvents).forEach(([date, events]) => {
-      if (!merged[date]) merged[date] = []
-      merged[date].push(...events.map(event => ({
-        ...event,
-        eventType: 'world' as const
-      })))
-    })
-  }
-  
-  // Add US presidents if enabled
-  if (APP_CONFIG.defaultShowPresidents) {
-    Object.entries(usPresidents).forEach(([date, events]) => {
-      if (!merged[date]) merged[date] = []
-      merged[date].push(...events.map(event => ({
-        ...event,
-        eventType: 'president' as const
-      })))
-    })
+// Height of a decade heading (matches .decade-heading in weeks.css)
+const DECADE_HEADING_HEIGHT = 32
+const NO_DECADE_BREAKS: number[] = []
+
+/**
+ * Find the row at a vertical offset into the grid (binary search over row tops)
+ */
+function findRowAtOffset(rowOffsets: number[], offset: number): number {
+  let low = 0
+  let high = rowOffsets.length - 2
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (rowOffsets[mid] <= offset) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
   }
-  
-  return merged
+  return Math.max(0, low)
 }
 
 interface WeeksGridProps {
   isCompactMode: boolean
+  granularity?: Granularity    // Time per box (default: weeks)
+  dayViewAge?: number         // Year of age shown at day granularity
   lifeEvents: EventsData
   weeksConfig: WeeksConfig
+  overlays: OverlaySettings    // Which overlay datasets to merge in
+  showPersonalEventDates: boolean  // Full dates in personal event tooltips (false = month/year only)
+  lifeExpectancy?: LifeExpectancyProjection | null  // Survival shading and percentile markers
+  activeTag?: string | null   // Dim every week without this tag
+  showDecadeHeadings?: boolean  // Heading above each decade (each decade starts a new row)
+  zoom?: number               // Cell size scale (see utils/zoom.ts)
 }
 
 export const WeeksGrid = forwardRef<HTMLDivElement, WeeksGridProps>(
-  function WeeksGrid({ isCompactMode, lifeEvents, weeksConfig }, ref) {
+  function WeeksGrid({ isCompactMode, granularity = 'weeks', dayViewAge = 0, lifeEvents, weeksConfig, overlays, showPersonalEventDates, lifeExpectancy = null, activeTag = null, showDecadeHeadings = false, zoom = DEFAULT_ZOOM }, ref) {
   const [containerWidth, setContainerWidth] = useState<number>(0)
   const gridContainerRef = useRef<HTMLDivElement>(null)
   
@@ -125,239 +102,130 @@ export const WeeksGrid = forwardRef<HTMLDivElement, WeeksGridProps>(
     measureContainer()
   }, [isCompactMode, measureContainer])
   
-  const startDate = new Date(weeksConfig.startDate)
   const currentDate = new Date()
   
-  // Generate milestone colors from the life events
-  const milestoneColors = generateMilestoneColors(lifeEvents)
+  // Zoomed out, labels drop to emoji and then empty weeks to dots; rows are laid out
+  // for the unzoomed width the scaled grid has room for
+  const emojiLabels = isCompactMode || zoom < EMOJI_ONLY_ZOOM
+  const showDots = zoom < DOTS_ZOOM
+  const layoutWidth = containerWidth / zoom
   
-  // Get merged events from all sources
-  const mergedEvents = getMergedEvents(lifeEvents)
+  // Build all boxes chronologically, with their milestone colors (cached per events and mode)
+  const { boxes: allBoxes } = useMemo(() => getTimeline(lifeEvents, weeksConfig, {
+    overlays,
+    isCompactMode: emojiLabels,
+    showPersonalEventDates,
+    lifeExpectancy,
+    granularity,
+    dayViewAge
+  }), [lifeEvents, weeksConfig, overlays, emojiLabels, showPersonalEventDates, lifeExpectancy, granularity, dayViewAge])
   
-  // Initialize milestone tracking
-  const milestoneWeeks = new Set<string>()  // Track weeks with milestone events
+  // Fonts and padding of labeled cells, so labels are measured rather than estimated
+  const boxMetrics = useBoxMetrics(gridContainerRef, isCompactMode, layoutWidth)
   
-  // Auto-coloring will be handled in the color map section
+  // With decade headings, every decade starts on a new row
+  const decadeBreaks = useMemo(
+    () => (showDecadeHeadings ? getDecadeStartIndices(allBoxes) : NO_DECADE_BREAKS),
+    [showDecadeHeadings, allBoxes]
+  )
   
-  // Generate all boxes chronologically
-  const allBoxes: GridBox[] = []
+  // Process all boxes together to get proper row numbering with dynamic container width
+  // (debounced and computed in a worker; the current rows stay up until then)
+  const allRows = useRowLayout(allBoxes, isCompactMode, layoutWidth, boxMetrics, decadeBreaks)
+  
+  // Decade sections come from the ages of the boxes, so anchors work at every granularity
+  const decadeSections = useMemo(() => groupRowsByDecade(allRows), [allRows])
+  const decadeLabels = useMemo(
+    () => new Map(getDecadeMilestones(weeksConfig.endYear, weeksConfig.startYear).map(decade => [decade.id, decade.label])),
+    [weeksConfig.endYear, weeksConfig.startYear]
+  )
+  const headingRows = useMemo(
+    () => new Map(showDecadeHeadings ? decadeSections.map(section => [section.startRow, section]) : []),
+    [showDecadeHeadings, decadeSections]
+  )
+  
+  // Virtualization: only rows near the viewport are mounted, the rest are replaced
+  // by spacers of the same height so the page length and scroll position are unchanged
+  // Row height is measured from the rendered CSS after mount (it changes at the mobile breakpoint)
+  const rowHeight = boxMetrics?.rowHeight ?? calculateRowHeight(isCompactMode)
+  const [visibleRows, setVisibleRows] = useState({ start: 0, end: INITIAL_VISIBLE_ROWS })
+  
+  // Top of each row, including the heading above it; the extra last entry is the grid height
+  const rowOffsets = useMemo(() => {
+    const offsets = [0]
+    allRows.forEach((_, rowIndex) => {
+      offsets.push(offsets[rowIndex] + rowHeight + (headingRows.has(rowIndex) ? DECADE_HEADING_HEIGHT : 0))
+    })
+    return offsets
+  }, [allRows, rowHeight, headingRows])
   
-  // Process each year from start to end
-  for (let year = weeksConfig.startYear; year <= weeksConfig.endYear; year++) {
-    const age = year - weeksConfig.startYear
+  useEffect(() => {
+    let frame = 0
     
-    // Add birthday box if not the birth year
-    if (age > 0) {
-      const birthdayDate = new Date(year, startDate.getMonth(), startDate.getDate())
-      const birthdayDateStr = formatDateString(birthdayDate)
+    const updateVisibleRows = () => {
+      frame = 0
+      if (!gridContainerRef.current) return
       
-      const birthdayBox: GridBox = {
-        type: 'birthday',
-        label: createBirthdayLabel(age, year, isCompactMode),
-        date: birthdayDateStr,
-        tooltip: createBirthdayTooltip(birthdayDateStr, age, APP_CONFIG.showPersonalEventDates),
-        borderClass: 'btn',
-        backgroundClass: 'custom-color', // We'll apply inline styles
-        age,
-        year
-      }
+      // Grid top relative to the viewport (negative once scrolled past), in unzoomed px
+      const gridTop = gridContainerRef.current.getBoundingClientRect().top
+      const rowCount = rowOffsets.length - 1
+      const start = Math.max(0, findRowAtOffset(rowOffsets, -gridTop / zoom) - OVERSCAN_ROWS)
+      const end = Math.min(rowCount, findRowAtOffset(rowOffsets, (window.innerHeight - gridTop) / zoom) + 1 + OVERSCAN_ROWS)
       
-      allBoxes.push(birthdayBox)
+      setVisibleRows(prev => (prev.start === start && prev.end === end ? prev : { start, end }))
     }
     
-    // For age 0, start from week 0. For age > 0, start from week 1 to avoid
-    // duplicating the week that contains the birthday (already in previous year)
-    const startWeek = age === 0 ? 0 : 1
-    
-    // Process all weeks in the year
-    for (let week = startWeek; week <= 52; week++) {
-      let weekDate: Date
-      
-      if (age === 0) {
-        // For birth year, start from the week containing the birth date
-        if (week === 0) {
-          // Week 0 is the week containing the birth date
-          weekDate = getWeekStartSunday(startDate)
-        } else {
-          // Subsequent weeks are 7 days apart from week 0
-          const baseWeek = getWeekStartSunday(startDate)
-          weekDate = new Date(baseWeek)
-          weekDate.setDate(weekDate.getDate() + (week * 7))
-        }
-      } else {
-        // For other years, start from anniversary date
-        const anniversaryDate = new Date(year, startDate.getMonth(), startDate.getDate())
-        anniversaryDate.setDate(anniversaryDate.getDate() + (week * 7))
-        weekDate = getWeekStartSunday(anniversaryDate)
-      }
-      
-      // Skip if this week is beyond the next birthday
-      const nextBirthday = new Date(year + 1, startDate.getMonth(), startDate.getDate())
-      if (weekDate >= nextBirthday) continue
-      
-      const weekDateStr = formatDateString(weekDate)
-      const weekAge = getAge(weekDate, startDate)
-      
-      // Date formatting now working correctly
-      
-      // Check if this week has any events on the week start date
-      let eventsForWeek = mergedEvents[weekDateStr]
-      let actualEventDate = weekDateStr // Default to week start
-      
-      // Also check each day within this week for events (like Gina's implementation)
-      for (let day = 0; day < 7; day++) {
-        const dayDate = new Date(weekDate)
-        dayDate.setDate(dayDate.getDate() + day)
-        
-        // Don't check dates beyond next birthday
-        const nextBirthday = new Date(year + 1, startDate.getMonth(), startDate.getDate())
-        if (dayDate >= nextBirthday) break
-        
-        const dayDateStr = formatDateString(dayDate)
-        const eventsForDay = mergedEvents[dayDateStr]
-        
-        if (eventsForDay && eventsForDay.length > 0) {
-          // Add milestone weeks based on week start dates
-          const milestoneEvents = eventsForDay.filter(e => e.eventType === 'personal' && e.milestone)
-          if (milestoneEvents.length > 0) {
-            // Add the week start date to milestone weeks since that's what the box.date will be
-            milestoneWeeks.add(weekDateStr)
-          }
-          // Use the day's events instead of week events
-          eventsForWeek = eventsForDay
-          actualEventDate = dayDateStr // Store the actual event date
-          break // Use first day with events in this week
-        }
-      }
-      
-      if (eventsForWeek && eventsForWeek.length > 0) {
-        // Pick the most important event (milestone first, then first event)
-        const primaryEvent = eventsForWeek.find(e => e.eventType === 'personal' && e.milestone) || eventsForWeek[0]
-        
-        // In compact mode, check if we should show this event
-        if (isCompactMode && !shouldShowInCompact(primaryEvent.headline)) {
-          // Skip this event in compact mode, treat as empty week
-          const weekBox: GridBox = {
-            type: 'week',
-            label: '',
-            date: weekDateStr,
-            tooltip: createTooltip(weekDateStr, undefined),
-            borderClass: 'btn',
-            backgroundClass: 'custom-color',
-            age: weekAge,
-            year
-          }
-          allBoxes.push(weekBox)
-        } else {
-          // Create tooltip that includes all events in this week
-          const allEventDescriptions = eventsForWeek.map(e => {
-            const prefix = e.eventType === 'world' ? '🌍 ' : 
-                          e.eventType === 'president' ? '🇺🇸 ' : ''
-            return prefix + e.headline + (e.description ? ` - ${e.description}` : '')
-          }).join('\n')
-          
-          const eventLabel = isCompactMode ? createCompactEventLabel(primaryEvent.headline) : primaryEvent.headline
-          
-          const eventBox: GridBox = {
-            type: 'event',
-            label: eventLabel,
-            date: weekDateStr,
-            tooltip: createTooltip(
-              weekDateStr, 
-              allEventDescriptions, 
-              actualEventDate, 
-              primaryEvent.eventType, 
-              APP_CONFIG.showPersonalEventDates
-            ),
-            borderClass: 'btn',
-            backgroundClass: 'custom-color', // We'll apply inline styles
-            age: weekAge,
-            year,
-            eventType: primaryEvent.eventType // Use primary event type for styling
-          }
-          
-          allBoxes.push(eventBox)
-        }
-      } else {
-        // Empty week box
-        const weekBox: GridBox = {
-          type: 'week',
-          label: '',
-          date: weekDateStr,
-          tooltip: createTooltip(weekDateStr, undefined),
-          borderClass: 'btn',
-          backgroundClass: 'custom-color', // We'll apply inline styles
-          age: weekAge,
-          year
-        }
-        
-        allBoxes.push(weekBox)
-      }
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(updateVisibleRows)
     }
-  }
-  
-  // All events are now properly processed
-  
-  // Group boxes by decade for proper section organization
-  // windowWidth state triggers re-render when screen size changes for responsive layout
-  // const decadeSections = groupBoxesByDecade(allBoxes) // Unused for now
-  
-  // Container width changes automatically trigger re-renders through state
-  
-  // Create a map to store the color for each box based on milestone progression
-  const boxColorMap = new Map<string, string>()
-  let colorIndex = 0
-  let currentBoxColor = milestoneColors[0]
-  
-  // First pass: identify all milestone events and their weeks
-  const milestoneEventDates = new Set<string>()
-  Object.entries(mergedEvents).forEach(([date, events]) => {
-    events.forEach(event => {
-      if (event.eventType === 'personal' && event.milestone) {
-        milestoneEventDates.add(date)
-        milestoneWeeks.add(date)
-      }
-    })
-  })
-  
-  // Also add milestone weeks based on which week boxes actually contain milestone events
-  for (const box of allBoxes) {
-    if (box.type === 'event') {
-      const eventsForBox = mergedEvents[box.date]
-      if (eventsForBox?.some(event => event.eventType === 'personal' && event.milestone)) {
-        milestoneWeeks.add(box.date)
-      }
+    
+    // Printing mounts every row, so the printout holds the whole life
+    const showAllRows = () => setVisibleRows({ start: 0, end: rowOffsets.length - 1 })
+    
+    updateVisibleRows()
+    window.addEventListener('scroll', scheduleUpdate, { passive: true })
+    window.addEventListener('resize', scheduleUpdate)
+    window.addEventListener('beforeprint', showAllRows)
+    window.addEventListener('afterprint', scheduleUpdate)
+    
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', scheduleUpdate)
+      window.removeEventListener('resize', scheduleUpdate)
+      window.removeEventListener('beforeprint', showAllRows)
+      window.removeEventListener('afterprint', scheduleUpdate)
     }
-  }
+  }, [rowOffsets, zoom])
   
-  // Second pass: assign colors based on chronological progression
-  // Sort all boxes by date to ensure chronological processing
-  const sortedBoxes = [...allBoxes].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  // Permalinks (#week-YYYY-MM-DD): jump near the linked row so it gets mounted, then center its box
+  const linkedDate = useLinkedDate()
+  const linkedBoxDate = useMemo(
+    () => (linkedDate ? findBoxDateForDate(allBoxes.map(box => box.date), linkedDate) : null),
+    [allBoxes, linkedDate]
+  )
+  const linkedRow = useMemo(
+    () => (linkedBoxDate ? allRows.findIndex(row => row.some(box => box.date === linkedBoxDate)) : -1),
+    [allRows, linkedBoxDate]
+  )
+  const jumpedToRow = useRef<string | null>(null)
   
-  for (const box of sortedBoxes) {
-    // Check if this box's week contains a milestone event
-    if (milestoneWeeks.has(box.date)) {
-      colorIndex++
-      if (colorIndex < milestoneColors.length) {
-        currentBoxColor = milestoneColors[colorIndex]
-      }
-    }
-    
-    // Also check for custom color overrides from events
-    const eventsForBox = mergedEvents[box.date]
-    if (eventsForBox) {
-      for (const event of eventsForBox) {
-        if (event.eventType === 'personal' && event.milestone && event.color) {
-          currentBoxColor = event.color
-        }
-      }
-    }
+  useEffect(() => {
+    if (linkedRow < 0 || !linkedBoxDate || jumpedToRow.current === linkedBoxDate || !gridContainerRef.current) return
+    jumpedToRow.current = linkedBoxDate
+    if (linkedRow >= visibleRows.start && linkedRow < visibleRows.end) return
     
-    boxColorMap.set(box.date, currentBoxColor)
-  }
+    const gridTop = gridContainerRef.current.getBoundingClientRect().top + window.scrollY
+    window.scrollTo({ top: gridTop + rowOffsets[linkedRow] * zoom - window.innerHeight / 2 })
+  }, [linkedBoxDate, linkedRow, visibleRows, rowOffsets, zoom])
   
-  // Process all boxes together to get proper row numbering with dynamic container width
-  const allRows = processBoxesIntoRows(allBoxes, isCompactMode, containerWidth > 0 ? containerWidth : undefined)
+  useScrollToLinked(
+    gridContainerRef,
+    linkedBoxDate ? `[data-date="${linkedBoxDate}"]` : null,
+    `${visibleRows.start}-${visibleRows.end}-${allRows.length}`
+  )
+  
+  const start = Math.min(visibleRows.start, allRows.length)
+  const end = Math.min(visibleRows.end, allRows.length)
   
   return (
     <div 
@@ -373,30 +241,62 @@ export const WeeksGrid = forwardRef<HTMLDivElement, WeeksGridProps>(
       }}
       className={`weeks-grid-container ${isCompactMode ? 'compact-mode' : ''}`}
     >
-      {allRows.map((row, globalRowIndex) => (
-        <div key={`row-${globalRowIndex}`} className="row-wrapper">
-          {row.map((box, boxIndex) => {
-            const boxDate = new Date(box.date)
-            const isFuture = boxDate > currentDate
-            const backgroundColor = isFuture ? '#f0f0f0' : (boxColorMap.get(box.date) || milestoneColors[0])
+      <div className="weeks-grid-zoom" style={{ zoom }}>
+        {decadeSections.map(section => (
+          <div 
+            key={section.decadeId} 
+            id={section.decadeId} 
+            data-decade={section.age}
+            className="decade-anchor" 
+            style={{ 
+              top: rowOffsets[section.startRow], 
+              height: Math.max(1, rowOffsets[section.endRow] - rowOffsets[section.startRow]) 
+            }} 
+            aria-hidden="true" 
+          />
+        ))}
+        <div className="row-spacer" style={{ height: rowOffsets[start] }} />
+        {allRows.slice(start, end).map((row, visibleRowIndex) => {
+          const heading = headingRows.get(start + visibleRowIndex)
+        
+          return (
+            <React.Fragment key={`row-${start + visibleRowIndex}`}>
+              {heading && (
+                <h2 className="decade-heading">{decadeLabels.get(heading.decadeId) ?? `${heading.age}s`}</h2>
+              )}
+              <div className="row-wrapper">
+                {row.map((box, boxIndex) => {
+                  const boxDate = new Date(box.date)
+                  const isFuture = boxDate > currentDate
+                  const backgroundColor = isFuture ? '#f0f0f0' : box.color
+                  const isDimmed = activeTag !== null && !box.tags?.includes(activeTag)
+                  const isDot = showDots && box.type === 'week' && !box.label
             
-            const combinedStyles: React.CSSProperties = {
-              backgroundColor,
-              border: '1px solid #ccc'
-            }
+                  const combinedStyles: React.CSSProperties = {
+                    backgroundColor,
+                    border: '1px solid #ccc',
+                    ...getOverlay(box.eventType)?.style,
+                    ...createSpanStyle(box.spans),
+                    // Dots take the milestone color (future dots use the CSS future colors)
+                    ...(isDot && !isFuture ? { '--dot-color': box.color } as React.CSSProperties : {})
+                  }
             
-            return (
-              <WeekBox
-                key={`${box.date}-${boxIndex}`}
-                box={box}
-                className={isFuture ? 'future-date' : ''}
-                style={combinedStyles}
-                isCompactMode={isCompactMode}
-              />
-            )
-          })}
-        </div>
-      ))}
+                  return (
+                    <WeekBox
+                      key={`${box.date}-${boxIndex}`}
+                      box={box}
+                      className={`${isFuture ? 'future-date' : ''} ${isDimmed ? 'dimmed' : ''} ${isDot ? 'week-dot' : ''} ${box.date === linkedBoxDate ? 'linked-week' : ''}`.trim()}
+                      style={combinedStyles}
+                      isCompactMode={isCompactMode}
+                    />
+                  )
+                })}
+              </div>
+            </React.Fragment>
+          )
+        })}
+        <div className="row-spacer" style={{ height: rowOffsets[allRows.length] - rowOffsets[end] }} />
+      </div>
     </div>
   )
 })
\ No newline at end of file
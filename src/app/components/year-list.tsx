@@ -0,0 +1,148 @@
+'use client'
+
+// YearList Component - One collapsible card per year of age, for narrow screens
+// Each card shows the year's weeks as a 52-cell strip (the classic row) and lists its events
+// as readable text, so nothing depends on tapping a few-pixel cell
+
+import React, { useMemo, useRef, forwardRef } from 'react'
+import { EventsData, WeeksConfig } from '../data/life-events'
+import { getTimeline } from '../utils/timeline'
+import { layoutClassicRows, groupClassicRowsByDecade } from '../utils/classic-layout'
+import { groupBoxesByAge } from '../utils/age-comparison'
+import { formatDateString, getDecadeMilestones } from '../utils/date-processing'
+import { getAgeOnDate } from '../utils/granularity'
+import { getOverlay } from '../data/overlays'
+import { OverlaySettings } from '../utils/overlay-params'
+import { LifeExpectancyProjection, createSurvivalStyle } from '../utils/life-expectancy'
+import { findBoxDateForDate } from '../utils/week-permalink'
+import { useLinkedDate, useScrollToLinked } from '../utils/linked-week'
+import { LinkifiedText } from './linkified-text'
+
+interface YearListProps {
+  lifeEvents: EventsData
+  weeksConfig: WeeksConfig
+  overlays: OverlaySettings    // Which overlay datasets to merge in
+  showPersonalEventDates: boolean  // Full dates in personal events (false = month/year only)
+  lifeExpectancy?: LifeExpectancyProjection | null  // Survival shading of future weeks
+  activeTag?: string | null   // Dim every week and event without this tag
+}
+
+export const YearList = forwardRef<HTMLDivElement, YearListProps>(
+  function YearList({ lifeEvents, weeksConfig, overlays, showPersonalEventDates, lifeExpectancy = null, activeTag = null }, ref) {
+  const today = formatDateString(new Date())
+
+  // Full headlines (compact mode would drop events without an emoji)
+  const { boxes } = useMemo(() => getTimeline(lifeEvents, weeksConfig, {
+    overlays,
+    showPersonalEventDates,
+    lifeExpectancy
+  }), [lifeEvents, weeksConfig, overlays, showPersonalEventDates, lifeExpectancy])
+
+  const decades = useMemo(() => groupClassicRowsByDecade(layoutClassicRows(boxes, weeksConfig)), [boxes, weeksConfig])
+  const boxesByAge = useMemo(() => groupBoxesByAge(boxes, weeksConfig.startYear), [boxes, weeksConfig.startYear])
+  const decadeLabels = useMemo(
+    () => new Map(getDecadeMilestones(weeksConfig.endYear, weeksConfig.startYear).map(decade => [decade.id, decade.label])),
+    [weeksConfig.endYear, weeksConfig.startYear]
+  )
+
+  // The current year starts open
+  const currentAge = getAgeOnDate(weeksConfig, today)
+
+  // Permalinks (#week-YYYY-MM-DD) open the linked year and center its events (or the card)
+  const listRef = useRef<HTMLDivElement>(null)
+  const linkedDate = useLinkedDate()
+  const linkedBox = useMemo(() => {
+    const date = linkedDate ? findBoxDateForDate(boxes.map(box => box.date), linkedDate) : null
+    return boxes.find(box => box.date === date) ?? null
+  }, [boxes, linkedDate])
+  useScrollToLinked(
+    listRef,
+    linkedBox ? (linkedBox.events?.length ? `[data-date="${linkedBox.date}"]` : `[data-age="${linkedBox.age}"]`) : null,
+    decades
+  )
+
+  return (
+    <div
+      ref={(el) => {
+        listRef.current = el
+        if (typeof ref === 'function') {
+          ref(el)
+        } else if (ref) {
+          ref.current = el
+        }
+      }}
+      className="weeks-grid-container year-list"
+    >
+      {decades.map(decade => (
+        <div key={decade.age} id={`decade-${decade.age}`} data-decade={decade.age} className="year-list-decade">
+          <h2 className="decade-heading">{decadeLabels.get(`decade-${decade.age}`) ?? `${decade.age}s`}</h2>
+          {decade.rows.map(row => {
+            const eventBoxes = (boxesByAge.get(row.age) ?? []).filter(box => box.events?.length)
+            const eventCount = eventBoxes.reduce((count, box) => count + (box.events?.length ?? 0), 0)
+            const year = weeksConfig.startYear + row.age
+
+            return (
+              <details key={row.age} className="year-card" data-age={row.age} open={row.age === currentAge || row.age === linkedBox?.age}>
+                <summary>
+                  <span className="year-card-title">
+                    Age {row.age} <span className="year-card-years">{year}–{String(year + 1).slice(2)}</span>
+                  </span>
+                  {eventCount > 0 && (
+                    <span className="year-card-count">{eventCount} {eventCount === 1 ? 'event' : 'events'}</span>
+                  )}
+                  <span className="year-strip" aria-hidden="true">
+                    {row.cells.map((box, column) => {
+                      if (!box) return <span key={column} className="year-strip-cell year-strip-empty" />
+
+                      const isFuture = box.date > today
+                      const isDimmed = activeTag !== null && !box.tags?.includes(activeTag)
+                      const classes = [
+                        'year-strip-cell',
+                        box.type === 'event' ? 'year-strip-event' : '',
+                        isFuture ? 'year-strip-future' : '',
+                        isDimmed ? 'dimmed' : ''
+                      ]
+
+                      return (
+                        <span
+                          key={column}
+                          className={classes.filter(Boolean).join(' ')}
+                          style={{ backgroundColor: isFuture ? undefined : box.color, ...createSurvivalStyle(box.survival) }}
+                        />
+                      )
+                    })}
+                  </span>
+                </summary>
+                {eventCount > 0 ? (
+                  <ul className="year-card-events">
+                    {eventBoxes.map(box => box.events!.map((event, index) => (
+                      <li
+                        key={`${box.date}-${index}`}
+                        data-date={box.date}
+                        className={[
+                          activeTag !== null && !box.tags?.includes(activeTag) ? 'dimmed' : '',
+                          box.date === linkedBox?.date ? 'linked-week' : ''
+                        ].filter(Boolean).join(' ') || undefined}
+                      >
+                        <span className="year-event-date">{event.dateLabel}</span>
+                        <span className="year-event-headline">
+                          {getOverlay(event.eventType)?.tooltipPrefix}{event.headline}
+                          {event.duration && <span className="year-event-duration"> ({event.duration})</span>}
+                        </span>
+                        {event.description && (
+                          <p className="year-event-description"><LinkifiedText text={event.description} /></p>
+                        )}
+                      </li>
+                    )))}
+                  </ul>
+                ) : (
+                  <p className="year-card-empty">No events this year.</p>
+                )}
+              </details>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+})
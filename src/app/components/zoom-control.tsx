@@ -0,0 +1,28 @@
+'use client'
+
+import React from 'react'
+import { MIN_ZOOM, MAX_ZOOM, ZOOM_STEP, DEFAULT_ZOOM } from '../utils/zoom'
+
+interface ZoomControlProps {
+  zoom: number
+  setZoom: (zoom: number) => void
+}
+
+export function ZoomControl({ zoom, setZoom }: ZoomControlProps) {
+  return (
+    <label className="zoom-control" title="Zoom (also ctrl+scroll or pinch on the grid)">
+      <span aria-hidden="true">🔎</span>
+      <input
+        type="range"
+        min={MIN_ZOOM}
+        max={MAX_ZOOM}
+        step={ZOOM_STEP}
+        value={zoom}
+        onChange={(event) => setZoom(Number(event.target.value))}
+        onDoubleClick={() => setZoom(DEFAULT_ZOOM)}
+        aria-label="Zoom"
+      />
+      <span className="zoom-level">{Math.round(zoom * 100)}%</span>
+    </label>
+  )
+}
@@ -1,27 +1,26 @@
 // Application Configuration
 // Central configuration file for Life in Weeks app settings
+// Per-person settings (name, events file, overrides) live in config/profiles.ts
+
+import type { Profile } from './profiles'
+import type { LifeTableCountry, LifeTableSex } from '../data/life-tables'
 
 export interface AppConfig {
   // Display Settings
   maxAge: number                    // Maximum age to display (years)
   
   // Default Overlay States
-  defaultShowWorldEvents: boolean   // Show world events overlay by default
-  defaultShowPresidents: boolean    // Show US presidents overlay by default
-  
-  // Personal Timeline Settings (birthDate will be provided by server-side config)
-  name: string                      // User's display name
-  website?: string                  // User's personal website
+  defaultOverlays: Record<string, boolean>  // Overlays shown by default, by id (see data/overlays.ts)
   
   // Grid Display Settings
   showRowNumbers: boolean           // Display row numbers in grid
   showBirthdayMarkers: boolean      // Show birthday markers
+  showDecadeHeadings: boolean       // Heading above each decade (each decade starts a new row)
   
   // Life Expectancy Settings
-  showLifeExpectancy: boolean       // Show life expectancy marker
-  lifeExpectancyAge: number         // Age for life expectancy marker
-  showJapanLifeExpectancy: boolean  // Show Japan male life expectancy marker
-  japanLifeExpectancyAge: number    // Japan male life expectancy age
+  showLifeExpectancy: boolean       // Shade future weeks by survival odds and mark median/P25/P75
+  lifeTableCountry: LifeTableCountry  // Mortality model to use (US, JP, GB, DE)
+  lifeTableSex: LifeTableSex        // Mortality model sex (male, female)
   
   // Layout Settings
   defaultCompactMode: boolean       // Start in compact view (fits entire life on screen)
@@ -33,22 +32,21 @@ export interface AppConfig {
   debounceResizeMs: number          // Debounce time for window resize events
 }
 
-// Default configuration
+// Default configuration (profiles can override any of these)
 export const APP_CONFIG: AppConfig = {
   // Display Settings
   maxAge: 85,                       // Show until 85 years old
   
   // Default Overlay States 
-  defaultShowWorldEvents: true,     // Show world events for historical context
-  defaultShowPresidents: false,     // US presidents off by default (can be enabled if needed)
-  
-  // Personal Timeline Settings
-  name: "Ran Ding",
-  website: "https://dingran.me",
+  defaultOverlays: {
+    world: true,                    // Show world events for historical context
+    presidents: false,              // US presidents off by default (can be enabled if needed)
+  },
   
   // Grid Display Settings
   showRowNumbers: false,            // Clean look without row numbers
   showBirthdayMarkers: true,        // Keep birthday markers for navigation
+  showDecadeHeadings: false,        // Continuous grid; the sticky navigation still jumps to decades
   
   // Layout Settings
   defaultCompactMode: false,        // Start with standard view, user can toggle
@@ -57,14 +55,9 @@ export const APP_CONFIG: AppConfig = {
   showPersonalEventDates: false,    // Hide specific dates for personal events (month/year only)
   
   // Life Expectancy Settings
-  showLifeExpectancy: true,         // Show life expectancy marker for perspective
-  lifeExpectancyAge: 77,            // US male life expectancy
-  showJapanLifeExpectancy: true,    // Show Japan comparison
-  japanLifeExpectancyAge: 82,       // Japan male life expectancy
-  // Source: https://www.worldometers.info/demographics/life-expectancy/
-  // US Life Expectancy 2024: Total 79.25, Male 76.94, Female 81.65
-  // Japan Life Expectancy 2024: Total 84.95, Male 82+ (from updated data)
-  // Using rounded values: US 77, Japan 82
+  showLifeExpectancy: true,         // Survival shading and percentile markers for perspective
+  lifeTableCountry: 'US',           // Bundled tables in data/life-tables.ts
+  lifeTableSex: 'male',
   
   // Responsive Settings
   debounceResizeMs: 150,            // Smooth resize handling
@@ -72,54 +65,49 @@ export const APP_CONFIG: AppConfig = {
 
 // Derived configuration interface
 export interface DerivedConfig {
+  slug: string                      // Profile URL segment
+  name: string                      // Profile display name
+  website?: string
+  intro?: string
+  config: AppConfig                 // App settings with the profile's overrides applied
   birthYear: number
   birthMonth: string
   birthDay: string
   endYear: number
-  lifeExpectancyYear: number
-  japanLifeExpectancyYear: number
-  lifeExpectancyDate: string
-  japanLifeExpectancyDate: string
-  lifeExpectancyLabel: string
-  japanLifeExpectancyLabel: string
   title: string
   description: string
 }
 
-// Function to create derived configuration from birth date
-export function createDerivedConfig(birthDate: string): DerivedConfig {
+// Merge a profile's overrides onto the default app configuration
+export function resolveProfileConfig(profile: Profile): AppConfig {
+  return { ...APP_CONFIG, ...profile.config }
+}
+
+// Function to create derived configuration from a profile and its birth date
+export function createDerivedConfig(birthDate: string, profile: Profile): DerivedConfig {
+  const config = resolveProfileConfig(profile)
   const birthYear = parseInt(birthDate.split('-')[0])
   const birthMonth = birthDate.split('-')[1]
   const birthDay = birthDate.split('-')[2]
   
   return {
+    // Profile details
+    slug: profile.slug,
+    name: profile.name,
+    website: profile.website,
+    intro: profile.intro,
+    config,
+    
     // Extract birth date components
     birthYear,
     birthMonth,
     birthDay,
     
     // Calculate derived years
-    endYear: birthYear + APP_CONFIG.maxAge,
-    lifeExpectancyYear: birthYear + APP_CONFIG.lifeExpectancyAge,
-    japanLifeExpectancyYear: birthYear + APP_CONFIG.japanLifeExpectancyAge,
-    
-    // Calculate life expectancy dates
-    lifeExpectancyDate: `${birthYear + APP_CONFIG.lifeExpectancyAge}-${birthMonth}-${birthDay}`,
-    japanLifeExpectancyDate: `${birthYear + APP_CONFIG.japanLifeExpectancyAge}-${birthMonth}-${birthDay}`,
-    
-    // Generate life expectancy labels
-    lifeExpectancyLabel: `🇺🇸 US Male Life Expectancy (${APP_CONFIG.lifeExpectancyAge} years)`,
-    japanLifeExpectancyLabel: `🇯🇵 Japan Male Life Expectancy (${APP_CONFIG.japanLifeExpectancyAge} years)`,
+    endYear: birthYear + config.maxAge,
     
     // App metadata
-    title: `${APP_CONFIG.name}'s Life in Weeks`,
-    description: `This is a map of ${APP_CONFIG.name}'s life, where each week I've been alive is a little box.`,
+    title: `${profile.name}'s Life in Weeks`,
+    description: `This is a map of ${profile.name}'s life, where each week I've been alive is a little box.`,
   }
 }
-
-// Placeholder for static access (will be replaced by server-side config)
-export const DERIVED_CONFIG = {
-  endYear: 2071, // placeholder
-  lifeExpectancyLabel: `🇺🇸 US Male Life Expectancy (${APP_CONFIG.lifeExpectancyAge} years)`,
-  japanLifeExpectancyLabel: `🇯🇵 Japan Male Life Expectancy (${APP_CONFIG.japanLifeExpectancyAge} years)`,
-}
\ No newline at end of file
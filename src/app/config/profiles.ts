@@ -0,0 +1,46 @@
+// Profiles Configuration
+// One deployment can host several timelines, each served at /[slug]
+
+import type { AppConfig } from './app-config'
+
+export interface Profile {
+  slug: string                      // URL segment, e.g. "ran" for /ran
+  name: string                      // Display name
+  website?: string                  // Personal website, linked from the intro
+  intro?: string                    // Intro line, supports [text](url) links (defaults to a greeting)
+  lifeEventsFile: string            // Life events data file or directory (.json/.yaml/.md), relative to project root
+  public: boolean                   // Listed on the index page (unlisted profiles are still reachable by URL)
+  
+  // Where this profile's private dates come from (see lib/server-config.ts)
+  privateDates?: {
+    envPrefixes?: string[]          // Default: PRIVATE_DATE_<SLUG>_ (PRIVATE_DATE_ALEX_BIRTH_DATE -> {{birthDate}})
+    file?: string                   // Default: private-dates.<slug>.local.yaml
+  }
+  
+  config?: Partial<AppConfig>       // Overrides for any app setting (maxAge, overlays, privacy, ...)
+}
+
+export const PROFILES: Profile[] = [
+  {
+    slug: "ran",
+    name: "Ran Ding",
+    website: "https://dingran.me",
+    lifeEventsFile: "content/life-events.yaml",
+    public: true,
+    // Original single-profile setup: REAL_* env vars and private-dates.local.yaml
+    privateDates: {
+      envPrefixes: ["PRIVATE_DATE_", "REAL_"],
+      file: "private-dates.local.yaml",
+    },
+  },
+]
+
+// Look up a profile by its URL segment
+export function getProfile(slug: string): Profile | undefined {
+  return PROFILES.find(profile => profile.slug === slug)
+}
+
+// Profiles listed on the index page
+export function getPublicProfiles(): Profile[] {
+  return PROFILES.filter(profile => profile.public)
+}
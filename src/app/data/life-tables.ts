@@ -0,0 +1,126 @@
+// Mortality Models - Probability of dying within each age interval, by country and sex
+// Used by utils/life-expectancy.ts to shade future weeks and place the median/P25/P75 markers
+//
+// Abridged intervals (ages 0, 1-4, 5-9, ..., 95-99, 100+). These are NOT the official qx
+// columns: each curve is a smooth, geometrically rising approximation, tuned only so that
+// life expectancy at birth (e0) matches the published table named in calibratedTo.
+// Ages at the markers are estimates; replace qx with the published columns for exact figures.
+
+export const LIFE_TABLE_COUNTRIES = ['US', 'JP', 'GB', 'DE'] as const
+export const LIFE_TABLE_SEXES = ['male', 'female'] as const
+
+export type LifeTableCountry = typeof LIFE_TABLE_COUNTRIES[number]
+export type LifeTableSex = typeof LIFE_TABLE_SEXES[number]
+
+export interface LifeTable {
+  label: string           // e.g. "🇺🇸 US male"
+  calibratedTo: string    // Published table whose e0 the curve reproduces (the qx values are modelled)
+  lifeExpectancyAtBirth: number
+  qx: number[]            // Probability of dying within each interval of LIFE_TABLE_AGES
+}
+
+// Start age of each interval; the last interval (100+) is closed with qx = 1
+export const LIFE_TABLE_AGES = [0, 1, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100]
+
+export const LIFE_TABLES: Record<LifeTableCountry, Record<LifeTableSex, LifeTable>> = {
+  // United States
+  US: {
+    male: {
+      label: "🇺🇸 US male",
+      calibratedTo: "e0 of CDC NCHS United States Life Tables, 2022",
+      lifeExpectancyAtBirth: 74.8,
+      qx: [
+        0.006, 0.00113, 0.00161, 0.00195, 0.00248, 0.00329,
+        0.00455, 0.00651, 0.00955, 0.01424, 0.02148, 0.03262,
+        0.04967, 0.07554, 0.11432, 0.17134, 0.25269, 0.36347,
+        0.50383, 0.66299, 0.81515, 1
+      ]
+    },
+    female: {
+      label: "🇺🇸 US female",
+      calibratedTo: "e0 of CDC NCHS United States Life Tables, 2022",
+      lifeExpectancyAtBirth: 80.2,
+      qx: [
+        0.005, 0.00093, 0.00124, 0.00139, 0.00163, 0.00201,
+        0.00263, 0.00362, 0.00521, 0.00776, 0.01185, 0.01839,
+        0.02882, 0.04535, 0.07135, 0.11168, 0.17289, 0.26259,
+        0.38689, 0.54436, 0.7173, 1
+      ]
+    }
+  },
+  // Japan
+  JP: {
+    male: {
+      label: "🇯🇵 JP male",
+      calibratedTo: "e0 of MHLW Abridged Life Tables for Japan, 2022",
+      lifeExpectancyAtBirth: 81.05,
+      qx: [
+        0.0019, 0.00088, 0.00117, 0.00128, 0.00145, 0.00175,
+        0.00223, 0.00303, 0.00435, 0.00652, 0.01009, 0.01594,
+        0.02551, 0.04108, 0.06622, 0.10624, 0.1685, 0.26183,
+        0.3934, 0.56112, 0.74259, 1
+      ]
+    },
+    female: {
+      label: "🇯🇵 JP female",
+      calibratedTo: "e0 of MHLW Abridged Life Tables for Japan, 2022",
+      lifeExpectancyAtBirth: 87.09,
+      qx: [
+        0.0017, 0.00081, 0.00103, 0.00105, 0.0011, 0.00117,
+        0.00131, 0.00155, 0.00198, 0.00274, 0.0041, 0.0065,
+        0.01075, 0.01827, 0.03148, 0.05452, 0.09412, 0.16045,
+        0.26657, 0.42315, 0.62354, 1
+      ]
+    }
+  },
+  // United Kingdom
+  GB: {
+    male: {
+      label: "🇬🇧 GB male",
+      calibratedTo: "e0 of ONS National Life Tables, 2020-2022",
+      lifeExpectancyAtBirth: 78.6,
+      qx: [
+        0.0042, 0.00092, 0.00124, 0.00139, 0.00163, 0.00204,
+        0.00269, 0.00376, 0.0055, 0.00834, 0.01295, 0.02043,
+        0.03252, 0.05193, 0.08279, 0.13101, 0.20434, 0.31098,
+        0.45522, 0.62872, 0.80144, 1
+      ]
+    },
+    female: {
+      label: "🇬🇧 GB female",
+      calibratedTo: "e0 of ONS National Life Tables, 2020-2022",
+      lifeExpectancyAtBirth: 82.6,
+      qx: [
+        0.0035, 0.00085, 0.0011, 0.00117, 0.00129, 0.00149,
+        0.00183, 0.0024, 0.00336, 0.00498, 0.00772, 0.01234,
+        0.02009, 0.03306, 0.0546, 0.08992, 0.14666, 0.23464,
+        0.36324, 0.53341, 0.72417, 1
+      ]
+    }
+  },
+  // Germany
+  DE: {
+    male: {
+      label: "🇩🇪 DE male",
+      calibratedTo: "e0 of Destatis Life Tables, 2020/2022",
+      lifeExpectancyAtBirth: 78.3,
+      qx: [
+        0.0034, 0.00094, 0.00126, 0.00143, 0.00169, 0.00213,
+        0.00283, 0.00397, 0.00581, 0.00881, 0.01365, 0.02147,
+        0.03403, 0.05409, 0.08579, 0.13502, 0.2094, 0.31682,
+        0.46108, 0.63338, 0.8039, 1
+      ]
+    },
+    female: {
+      label: "🇩🇪 DE female",
+      calibratedTo: "e0 of Destatis Life Tables, 2020/2022",
+      lifeExpectancyAtBirth: 83.2,
+      qx: [
+        0.0029, 0.00084, 0.00109, 0.00115, 0.00126, 0.00144,
+        0.00174, 0.00226, 0.00314, 0.00464, 0.00717, 0.01146,
+        0.01871, 0.0309, 0.05127, 0.08489, 0.13931, 0.22444,
+        0.35022, 0.51893, 0.71134, 1
+      ]
+    }
+  }
+}
@@ -0,0 +1,61 @@
+// Overlay Registry - Datasets that can be layered over the personal timeline
+// Each overlay gets a toggle, a URL parameter and tooltip prefix without any grid changes:
+// to add one (sports, science, local history, ...), add its data file and an entry below
+
+import type { FieldRules } from '../lib/events-validator'
+import { worldEvents, WORLD_EVENT_CATEGORIES } from './world-events'
+import { usPresidents, PRESIDENTIAL_PARTIES } from './us-presidents'
+
+// Fields every overlay event has; datasets can add their own (category, party, ...)
+export interface OverlayEvent {
+  headline: string
+  description?: string
+}
+
+export interface OverlayDefinition {
+  id: string                        // URL parameter (?world=1) and event type of its events
+  label: string                     // Toggle button text
+  tooltipPrefix: string             // Prepended to headlines in tooltips
+  style?: React.CSSProperties       // Extra styling for weeks whose main event is from this overlay
+  events: Record<string, OverlayEvent[]>  // "YYYY-MM-DD" -> events on that date
+  sourceFile?: string               // Data file, used by yarn validate:events for line numbers
+  fields?: FieldRules               // Schema checked by yarn validate:events (default: headline/description)
+}
+
+export const OVERLAYS: OverlayDefinition[] = [
+  {
+    id: "world",
+    label: "🌍 World Events",
+    tooltipPrefix: "🌍 ",
+    style: { borderColor: '#8fb3d9' },
+    events: worldEvents,
+    sourceFile: "src/app/data/world-events.ts",
+    fields: {
+      headline: { type: 'string', required: true },
+      description: { type: 'string' },
+      category: { type: 'string', required: true, values: WORLD_EVENT_CATEGORIES },
+    },
+  },
+  {
+    id: "presidents",
+    label: "🇺🇸 Presidents",
+    tooltipPrefix: "🇺🇸 ",
+    style: { borderColor: '#d9a0a0' },
+    events: usPresidents,
+    sourceFile: "src/app/data/us-presidents.ts",
+    fields: {
+      headline: { type: 'string', required: true },
+      president: { type: 'string', required: true },
+      party: { type: 'string', required: true, values: PRESIDENTIAL_PARTIES },
+      termNumber: { type: 'number', required: true },
+    },
+  },
+]
+
+// Event type of personal events (overlay events use their overlay's id)
+export const PERSONAL_EVENT_TYPE = 'personal'
+
+// Look up an overlay by id
+export function getOverlay(id: string | undefined): OverlayDefinition | undefined {
+  return OVERLAYS.find(overlay => overlay.id === id)
+}
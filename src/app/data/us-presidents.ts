@@ -1,16 +1,18 @@
 // US Presidents Data - Presidential terms from 1986 onwards
 // These appear as small overlay indicators when toggled on
 
+export const PRESIDENTIAL_PARTIES = ['Republican', 'Democrat'] as const
+
 export interface PresidentialTerm {
   headline: string
   president: string
-  party: 'Republican' | 'Democrat'
+  party: typeof PRESIDENTIAL_PARTIES[number]
   termNumber: number
 }
 
 export const usPresidents: Record<string, PresidentialTerm[]> = {
-  // Ronald Reagan (already in office when user was born)
-  "PLACEHOLDER_BIRTH_DATE": [
+  // Ronald Reagan (second term, already in office when user was born)
+  "1985-01-20": [
     {
       headline: "🇺🇸 Reagan (R)",
       president: "Ronald Reagan",
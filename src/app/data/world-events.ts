@@ -1,10 +1,12 @@
 // World Events Data - Major historical events from 1986 onwards
 // These appear as small overlay indicators when toggled on
 
+export const WORLD_EVENT_CATEGORIES = ['politics', 'technology', 'disaster', 'culture', 'economy', 'war'] as const
+
 export interface WorldEvent {
   headline: string
   description?: string
-  category: 'politics' | 'technology' | 'disaster' | 'culture' | 'economy' | 'war'
+  category: typeof WORLD_EVENT_CATEGORIES[number]
 }
 
 export const worldEvents: Record<string, WorldEvent[]> = {
@@ -1,26 +1,20 @@
 import type { Metadata } from "next";
 import { Analytics } from "@vercel/analytics/next";
 
+// Defaults for pages without a profile; profile pages set their own title and description
+// (generateMetadata) and preview image (opengraph-image.tsx)
 export const metadata: Metadata = {
+  // Absolute URLs for preview images (Vercel deployments fill this in automatically)
+  metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
   title: "Life in Weeks",
-  description: "A visual map of my life, where each week I've been alive is a little box.",
+  description: "A visual map of a life, where each week is a little box.",
   openGraph: {
     title: "Life in Weeks",
-    description: "A visual map of my life, where each week I've been alive is a little box.",
-    images: [
-      {
-        url: "/screencapture-localhost-3001-2025-06-15-20_26_45.png",
-        width: 1200,
-        height: 630,
-        alt: "Life in Weeks - Visual timeline of Ran Ding's life",
-      }
-    ],
+    description: "A visual map of a life, where each week is a little box.",
+    type: "website",
   },
   twitter: {
     card: "summary_large_image",
-    title: "Life in Weeks",
-    description: "A visual map of my life, where each week I've been alive is a little box.",
-    images: ["/screencapture-localhost-3001-2025-06-15-20_26_45.png"],
   },
 };
 
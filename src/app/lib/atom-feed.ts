@@ -0,0 +1,101 @@
+// Atom feed - Follow a timeline in a feed reader (/api/feed.xml)
+// One entry per event, newest first, each linking to its week in the grid
+
+import type { ProfileTimeline } from './profile-timeline'
+import { PERSONAL_EVENT_TYPE, getOverlay } from '../data/overlays'
+import { getMergedEvents, MergedEvent } from '../utils/timeline'
+import { formatDateString, formatDuration, formatTooltipDate } from '../utils/date-processing'
+import { OverlaySettings, applyOverlayParams } from '../utils/overlay-params'
+import { getWeekHash } from '../utils/week-permalink'
+import { linkifyHtml } from '../utils/linkify'
+import { escapeXml } from '../utils/escape-xml'
+
+// Feed readers only need the recent past
+export const MAX_FEED_ENTRIES = 50
+
+interface FeedEntry {
+  date: string                 // Published date: the first of the month where the day is hidden
+  showDay: boolean
+  event: MergedEvent
+  duration?: string
+}
+
+export interface AtomFeedUrls {
+  siteUrl: string              // Origin the permalinks point to
+  selfUrl: string              // URL of the feed itself
+}
+
+/**
+ * Events up to today, newest first; personal dates show the day only where the site does,
+ * so private (and hidden) dates are rounded to the first of their month
+ */
+function getFeedEntries(timeline: ProfileTimeline, overlays: OverlaySettings, today: string): FeedEntry[] {
+  const { showPersonalEventDates } = timeline.derivedConfig.config
+
+  return Object.entries(getMergedEvents(timeline.lifeEvents, overlays))
+    .filter(([date]) => date <= today)
+    .flatMap(([date, events]) => events.map(event => {
+      const showDay = event.eventType !== PERSONAL_EVENT_TYPE || (showPersonalEventDates && !event.private)
+      return {
+        date: showDay ? date : `${date.slice(0, 8)}01`,
+        showDay,
+        event,
+        duration: event.endDate && event.endDate > date ? formatDuration(date, event.endDate) : undefined
+      }
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_FEED_ENTRIES)
+}
+
+/**
+ * Entry body as HTML: the date, then the description with clickable links
+ */
+function renderEntryHtml(entry: FeedEntry): string {
+  const dateLine = formatTooltipDate(entry.date, entry.showDay) + (entry.duration ? ` (${entry.duration})` : '')
+  const description = entry.event.description ? `<p>${linkifyHtml(entry.event.description)}</p>` : ''
+  return `<p>${escapeXml(dateLine)}</p>${description}`
+}
+
+/**
+ * Render a profile's events as an Atom feed
+ */
+export function renderAtomFeed(timeline: ProfileTimeline, overlays: OverlaySettings, urls: AtomFeedUrls): string {
+  const { derivedConfig } = timeline
+  const entries = getFeedEntries(timeline, overlays, formatDateString(new Date()))
+
+  // Permalinks keep the overlays of the feed, so overlay events are on the page they link to
+  const pageUrl = applyOverlayParams(new URL(`/${derivedConfig.slug}`, urls.siteUrl), overlays, derivedConfig.config).toString()
+  const updated = entries.length > 0 ? `${entries[0].date}T00:00:00Z` : new Date().toISOString()
+
+  const items = entries.map(entry => {
+    const { event } = entry
+    const title = (getOverlay(event.eventType)?.tooltipPrefix ?? '') + event.headline
+    const categories = [event.eventType, ...(event.tags ?? [])]
+    const id = `urn:life-in-weeks:${derivedConfig.slug}:${event.eventType}:${entry.date}:${encodeURIComponent(event.headline)}`
+
+    return [
+      '  <entry>',
+      `    <title>${escapeXml(title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(`${pageUrl}#${getWeekHash(entry.date)}`)}" />`,
+      `    <id>${escapeXml(id)}</id>`,
+      `    <updated>${entry.date}T00:00:00Z</updated>`,
+      ...categories.map(term => `    <category term="${escapeXml(term)}" />`),
+      `    <content type="html">${escapeXml(renderEntryHtml(entry))}</content>`,
+      '  </entry>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(derivedConfig.title)}</title>`,
+    `  <subtitle>${escapeXml(derivedConfig.description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(urls.selfUrl)}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(pageUrl)}" />`,
+    `  <id>${escapeXml(pageUrl)}</id>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>${escapeXml(derivedConfig.name)}</name></author>`,
+    ...items,
+    '</feed>'
+  ].join('\n')
+}
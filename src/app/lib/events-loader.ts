@@ -0,0 +1,210 @@
+// Life events loader - reads personal events from an external data file
+// This file runs only on the server (uses the filesystem) and is not exposed to the client
+
+import fs from 'fs'
+import path from 'path'
+import { parse as parseYaml } from 'yaml'
+import { EventsData, LifeEvent, PrivateDates } from '../data/life-events'
+import { parseIcs } from './ical'
+
+// Parsed events before any checks: a map of dates to whatever each list holds
+export type UncheckedEventsData = Record<string, unknown[]>
+
+// Matches a whole-key placeholder such as "{{birthDate}}"
+const PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z0-9_]+)\s*\}\}$/
+
+/**
+ * Check if an events key is a {{placeholder}} instead of a literal date
+ */
+export function isDatePlaceholder(key: string): boolean {
+  return PLACEHOLDER_PATTERN.test(key)
+}
+
+/**
+ * Get the placeholder name from a key ("{{birthDate}}" -> "birthDate")
+ */
+export function getPlaceholderName(key: string): string | null {
+  const match = key.match(PLACEHOLDER_PATTERN)
+  return match ? match[1] : null
+}
+
+/**
+ * Split a markdown document into YAML frontmatter and body
+ */
+function splitFrontmatter(source: string, filePath: string): { frontmatter: Record<string, unknown>, body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/)
+  if (!match) {
+    throw new Error(`${filePath}: missing frontmatter block (expected the file to start with ---)`)
+  }
+
+  const frontmatter = parseYaml(match[1]) ?? {}
+  if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+    throw new Error(`${filePath}: frontmatter must be a set of key: value fields`)
+  }
+
+  return { frontmatter, body: match[2].trim() }
+}
+
+/**
+ * Read a single markdown event (frontmatter holds date/headline/milestone,
+ * the body becomes the description)
+ */
+function readMarkdownEvent(filePath: string): UncheckedEventsData {
+  const { frontmatter, body } = splitFrontmatter(fs.readFileSync(filePath, 'utf8'), filePath)
+  const { date, ...fields } = frontmatter
+
+  if (typeof date !== 'string') {
+    throw new Error(`${filePath}: frontmatter needs a date (YYYY-MM-DD or {{placeholder}})`)
+  }
+
+  const event: Record<string, unknown> = { ...fields }
+  if (body) {
+    event.description = body
+  }
+
+  return { [date]: [event] }
+}
+
+/**
+ * Turn parsed JSON/YAML into EventsData, accepting a single event in place of a list
+ * Field-level checks live in events-validator.ts so they can be reported with file locations
+ */
+function normalizeEvents(data: unknown, filePath: string): UncheckedEventsData {
+  if (data === null || data === undefined) {
+    return {}
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${filePath}: expected a map of dates to events`)
+  }
+
+  const events: UncheckedEventsData = {}
+  for (const [date, value] of Object.entries(data)) {
+    events[date] = Array.isArray(value) ? value : [value]
+  }
+
+  return events
+}
+
+function isLifeEvent(event: unknown): event is LifeEvent {
+  return !!event && typeof event === 'object' && typeof (event as { headline?: unknown }).headline === 'string'
+}
+
+/**
+ * Minimal runtime check before events reach the app, which may run without
+ * validate:events (next dev): every event must be an object with a headline
+ */
+function checkEvents(events: UncheckedEventsData, filePath: string): EventsData {
+  const checked: EventsData = {}
+  for (const [date, list] of Object.entries(events)) {
+    checked[date] = list.map((event, index) => {
+      if (!isLifeEvent(event)) {
+        throw new Error(`${filePath}: event ${index + 1} on "${date}" needs a headline`)
+      }
+      return event
+    })
+  }
+  return checked
+}
+
+// Events read from one file, kept separate so problems can be traced back to it
+export interface EventsSource {
+  file: string
+  events: UncheckedEventsData  // Checked by events-validator.ts, or by checkEvents when loaded
+}
+
+/**
+ * Merge events from several sources, keeping every event on shared dates
+ */
+function mergeEvents(target: EventsData, source: EventsData): EventsData {
+  Object.entries(source).forEach(([date, events]) => {
+    target[date] = [...(target[date] ?? []), ...events]
+  })
+  return target
+}
+
+/**
+ * Read events from a file or directory, one entry per file, without resolving placeholders
+ *
+ * Supported sources:
+ * - .json / .yaml / .yml: map of "YYYY-MM-DD" keys to lists of events
+ * - .md: one event per file, fields in the frontmatter and the body as description
+ * - .ics: calendar export, one event per VEVENT
+ * - a directory: every supported file inside it
+ */
+export function readEventSources(filePath: string): EventsSource[] {
+  const resolvedPath = path.resolve(process.cwd(), filePath)
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Life events file not found: ${resolvedPath}. Please check lifeEventsFile in config/profiles.ts.`)
+  }
+
+  if (fs.statSync(resolvedPath).isDirectory()) {
+    return fs.readdirSync(resolvedPath)
+      .filter(name => /\.(json|ya?ml|md|ics)$/.test(name))
+      .sort()
+      .flatMap(name => readEventSources(path.join(resolvedPath, name)))
+  }
+
+  const extension = path.extname(resolvedPath).toLowerCase()
+  let events: UncheckedEventsData
+  switch (extension) {
+    case '.json':
+      events = normalizeEvents(JSON.parse(fs.readFileSync(resolvedPath, 'utf8')), resolvedPath)
+      break
+    case '.yaml':
+    case '.yml':
+      events = normalizeEvents(parseYaml(fs.readFileSync(resolvedPath, 'utf8')), resolvedPath)
+      break
+    case '.md':
+      events = normalizeEvents(readMarkdownEvent(resolvedPath), resolvedPath)
+      break
+    case '.ics':
+      events = parseIcs(fs.readFileSync(resolvedPath, 'utf8'), resolvedPath)
+      break
+    default:
+      throw new Error(`Unsupported life events file type "${extension}" (use .json, .yaml, .yml, .md or .ics): ${resolvedPath}`)
+  }
+
+  return [{ file: resolvedPath, events }]
+}
+
+/**
+ * Read events from a file or directory without resolving placeholders
+ * Throws if an event has no headline
+ */
+export function readEventsFile(filePath: string): EventsData {
+  return readEventSources(filePath).reduce((events, source) => mergeEvents(events, checkEvents(source.events, source.file)), {} as EventsData)
+}
+
+/**
+ * Replace {{placeholder}} keys with the matching private dates
+ * Events on those dates are marked private; throws if a date was not provided
+ */
+export function resolveDatePlaceholders(events: EventsData, dates: PrivateDates): EventsData {
+  const resolved: EventsData = {}
+
+  Object.entries(events).forEach(([key, list]) => {
+    const name = getPlaceholderName(key)
+    let date = key
+    let events = list
+
+    if (name) {
+      if (!dates[name]) {
+        throw new Error(`Unknown date placeholder {{${name}}} in life events. Available: ${Object.keys(dates).join(', ')}`)
+      }
+      date = dates[name]
+      events = list.map(event => ({ ...event, private: true }))
+    }
+
+    resolved[date] = [...(resolved[date] ?? []), ...events]
+  })
+
+  return resolved
+}
+
+/**
+ * Load life events from a data file and fill in the private dates
+ */
+export function loadEventsFile(filePath: string, dates: PrivateDates): EventsData {
+  return resolveDatePlaceholders(readEventsFile(filePath), dates)
+}
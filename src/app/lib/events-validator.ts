@@ -0,0 +1,213 @@
+// Events Validator - Schema checks and linting for EventsData
+// Used by scripts/validate-events.ts (yarn validate:events) and run before every build
+
+import { PrivateDates } from '../data/life-events'
+import { formatDateString, getWeekStartSunday, isValidDateString } from '../utils/date-processing'
+import { shouldShowInCompact } from '../utils/grid-layout'
+import { getPlaceholderName } from './events-loader'
+
+export type IssueSeverity = 'error' | 'warning'
+
+export interface ValidationIssue {
+  severity: IssueSeverity
+  file: string
+  line?: number
+  date: string
+  message: string
+}
+
+// Expected type (and optional allowed values) for one event field
+export interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'string[]'
+  required?: boolean
+  values?: readonly string[]
+}
+
+export type FieldRules = Record<string, FieldRule>
+
+export const LIFE_EVENT_FIELDS: FieldRules = {
+  headline: { type: 'string', required: true },
+  description: { type: 'string' },
+  endDate: { type: 'string' },
+  tags: { type: 'string[]' },
+  milestone: { type: 'boolean' },
+  private: { type: 'boolean' },
+}
+
+// Default schema for overlays that do not declare their own fields
+export const OVERLAY_EVENT_FIELDS: FieldRules = {
+  headline: { type: 'string', required: true },
+  description: { type: 'string' },
+}
+
+export interface ValidateEventsOptions {
+  file: string                                   // File path reported with each issue
+  source?: string                                // File contents, used to find line numbers
+  fields: FieldRules                             // Schema for each event in the dataset
+  personal?: boolean                             // Personal events get milestone and birth date checks
+  placeholders?: PrivateDates                    // Known {{placeholder}} dates (undefined = not checked)
+  birthDate?: string                             // Events before this date are never shown
+  endYear?: number                               // Events after this year are never shown
+}
+
+/**
+ * Find the 1-based line number where a date key is defined in a source file
+ */
+function findKeyLine(source: string | undefined, key: string): number | undefined {
+  if (!source) return undefined
+
+  const lines = source.split('\n')
+  const index = lines.findIndex(line =>
+    line.includes(`"${key}"`) ||
+    line.includes(`'${key}'`) ||
+    line.trimStart().startsWith(`${key}:`) ||
+    line.trimStart().startsWith(`date: ${key}`) ||
+    (line.startsWith('DTSTART') && line.includes(`:${key.replace(/-/g, '')}`))
+  )
+  return index >= 0 ? index + 1 : undefined
+}
+
+/**
+ * Check one event object against the field rules, returning problems as issues
+ */
+function validateEvent(
+  event: unknown,
+  fields: FieldRules,
+  personal: boolean,
+  report: (severity: IssueSeverity, message: string) => void
+): void {
+  if (!event || typeof event !== 'object' || Array.isArray(event)) {
+    report('error', 'event must be an object with at least a headline')
+    return
+  }
+
+  const record = event as Record<string, unknown>
+
+  Object.entries(fields).forEach(([name, rule]) => {
+    const value = record[name]
+
+    if (value === undefined) {
+      if (rule.required) report('error', `missing required field "${name}"`)
+      return
+    }
+
+    if (rule.type === 'string[]') {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+        report('error', `field "${name}" must be a list of non-empty strings`)
+      }
+      return
+    }
+
+    if (typeof value !== rule.type) {
+      report('error', `field "${name}" must be a ${rule.type}, got ${Array.isArray(value) ? 'list' : typeof value}`)
+      return
+    }
+
+    if (rule.values && !rule.values.includes(value as string)) {
+      report('error', `field "${name}" must be one of ${rule.values.join(', ')}, got "${value}"`)
+    }
+  })
+
+  Object.keys(record)
+    .filter(name => !(name in fields))
+    .forEach(name => report('warning', `unknown field "${name}" is ignored`))
+
+  const headline = record.headline
+  if (typeof headline === 'string') {
+    if (!headline.trim()) {
+      report('error', 'headline is empty')
+    } else if (personal && !shouldShowInCompact(headline)) {
+      report('warning', `"${headline}" has no emoji, so it is hidden in compact mode`)
+    }
+  }
+}
+
+/**
+ * Validate an events dataset (personal events or an overlay)
+ *
+ * Errors: malformed or impossible dates, unknown placeholders, missing or
+ * mistyped fields, endDate before the start, more than one milestone on the same day.
+ * Warnings: events outside the displayed lifespan, missing emoji, unknown
+ * fields, milestones sharing a week (only one color change is shown).
+ */
+export function validateEventsData(events: Record<string, unknown>, options: ValidateEventsOptions): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const personal = options.personal ?? false
+  const milestoneWeeks = new Map<string, string>()
+
+  Object.entries(events).forEach(([key, value]) => {
+    const line = findKeyLine(options.source, key)
+    const report = (severity: IssueSeverity, message: string) => {
+      issues.push({ severity, file: options.file, line, date: key, message })
+    }
+
+    // Resolve the date this key stands for
+    let date: string | undefined = key
+    const placeholder = getPlaceholderName(key)
+    if (placeholder) {
+      if (!personal) {
+        report('error', `placeholder ${key} is only supported in life events`)
+        date = undefined
+      } else if (!options.placeholders) {
+        date = undefined
+      } else if (!options.placeholders[placeholder]) {
+        report('error', `unknown date placeholder ${key} (available: ${Object.keys(options.placeholders).join(', ')})`)
+        date = undefined
+      } else {
+        date = options.placeholders[placeholder]
+      }
+    } else if (!isValidDateString(key)) {
+      report('error', `"${key}" is not a valid YYYY-MM-DD date`)
+      date = undefined
+    }
+
+    // Validate the events on this date
+    const list = Array.isArray(value) ? value : [value]
+    if (list.length === 0) {
+      report('warning', 'date has no events')
+    }
+    list.forEach(event => validateEvent(event, options.fields, personal, report))
+
+    if (!date) return
+
+    // Lifespan range checks
+    if (options.endYear !== undefined && parseInt(date.split('-')[0]) > options.endYear) {
+      report('warning', `date is after endYear ${options.endYear}, so it is never shown`)
+    }
+    if (personal && options.birthDate && date < options.birthDate) {
+      report('warning', `date is before the birth date, so it is never shown`)
+    }
+
+    // Date-range checks (endDate is inclusive)
+    list.forEach(event => {
+      const endDate = (event as { endDate?: unknown })?.endDate
+      if (typeof endDate !== 'string') return
+      if (!isValidDateString(endDate)) {
+        report('error', `endDate "${endDate}" is not a valid YYYY-MM-DD date`)
+      } else if (endDate < date) {
+        report('error', `endDate ${endDate} is before the start date`)
+      }
+    })
+
+    // Milestone checks (milestones only drive colors for personal events)
+    if (!personal) return
+
+    const milestones = list.filter(event => (event as { milestone?: unknown })?.milestone === true)
+    if (milestones.length > 1) {
+      report('error', `${milestones.length} milestones on one day, only one color change can be shown`)
+    }
+
+    if (milestones.length > 0) {
+      const [year, month, day] = date.split('-').map(Number)
+      const weekKey = formatDateString(getWeekStartSunday(new Date(year, month - 1, day)))
+      const otherDate = milestoneWeeks.get(weekKey)
+      if (otherDate) {
+        report('warning', `milestone shares a week with the milestone on ${otherDate}, only one color change is shown`)
+      } else {
+        milestoneWeeks.set(weekKey, key)
+      }
+    }
+  })
+
+  return issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0))
+}
@@ -0,0 +1,277 @@
+// iCalendar (.ics) import and export of life events
+// Import: VEVENTs from a calendar app become EventsData (read by the events loader)
+// Export: personal events as a subscribable calendar feed (/api/calendar.ics)
+
+import { createHash } from 'crypto'
+import { EventsData, LifeEvent } from '../data/life-events'
+import { addDaysToDateString, formatDuration } from '../utils/date-processing'
+
+// CATEGORIES value that marks an event as a milestone (other categories become tags)
+export const MILESTONE_CATEGORY = 'milestone'
+
+const PRODUCT_ID = '-//life-in-weeks-nextjs//Life Events//EN'
+const MAX_LINE_OCTETS = 75
+
+// One content line: NAME;PARAM=VALUE:value (after unfolding)
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+  line: number                // 1-based line number in the file, for error messages
+}
+
+/**
+ * Unfold continuation lines (a line starting with a space or tab continues the previous one)
+ */
+function unfoldLines(source: string): { text: string, line: number }[] {
+  const lines: { text: string, line: number }[] = []
+  source.split(/\r?\n/).forEach((text, index) => {
+    if ((text.startsWith(' ') || text.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1].text += text.slice(1)
+    } else if (text.trim()) {
+      lines.push({ text, line: index + 1 })
+    }
+  })
+  return lines
+}
+
+/**
+ * Split a content line into its name, parameters and value (colons inside quoted parameters are kept)
+ */
+function parseContentLine(text: string, line: number): ContentLine {
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') inQuotes = !inQuotes
+    if (text[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+
+  const head = colon >= 0 ? text.slice(0, colon) : text
+  const [name, ...paramParts] = head.split(';')
+  const params = Object.fromEntries(paramParts.map(part => {
+    const [key, ...rest] = part.split('=')
+    return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')]
+  }))
+
+  return { name: name.toUpperCase(), params, value: colon >= 0 ? text.slice(colon + 1) : '', line }
+}
+
+/**
+ * Unescape a TEXT value (\n, \, \; \\)
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+/**
+ * Split a list value on unescaped commas (CATEGORIES)
+ */
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).map(item => unescapeText(item).trim()).filter(Boolean)
+}
+
+/**
+ * Date part of a DATE or DATE-TIME value as written (20120615 or 20120615T090000Z -> 2012-06-15)
+ */
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null
+}
+
+/**
+ * Days covered by a DURATION value (P3D, P2W, P1DT12H); partial days count as a day
+ */
+function parseDurationDays(value: string): number | null {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+  const [, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match
+  const hasTime = Number(hours) + Number(minutes) + Number(seconds) > 0
+  return Number(weeks) * 7 + Number(days) + (hasTime ? 1 : 0)
+}
+
+/**
+ * Turn the properties of one VEVENT into a dated life event
+ * All-day DTEND values are exclusive, so the last day is the day before
+ */
+function createEventFromProperties(properties: ContentLine[], filePath: string, startLine: number): { date: string, event: LifeEvent } {
+  const get = (name: string) => properties.find(property => property.name === name)
+  const dtstart = get('DTSTART')
+  const date = dtstart && parseIcsDate(dtstart.value)
+  if (!date) {
+    throw new Error(`${filePath}:${startLine}: VEVENT needs a DTSTART date`)
+  }
+
+  let endDate: string | undefined
+  const dtend = get('DTEND')
+  const duration = get('DURATION')
+  if (dtend) {
+    const end = parseIcsDate(dtend.value)
+    const exclusive = dtend.params.VALUE === 'DATE' || /^\d{8}$/.test(dtend.value) || /T000000Z?$/.test(dtend.value)
+    endDate = end && exclusive ? addDaysToDateString(end, -1) : end ?? undefined
+  } else if (duration) {
+    const days = parseDurationDays(duration.value)
+    if (days && days > 1) endDate = addDaysToDateString(date, days - 1)
+  }
+
+  const categories = properties.filter(property => property.name === 'CATEGORIES').flatMap(property => splitList(property.value))
+  const tags = categories.filter(category => category.toLowerCase() !== MILESTONE_CATEGORY)
+  const summary = get('SUMMARY')
+  const description = get('DESCRIPTION')
+  const url = get('URL')?.value
+
+  const event: LifeEvent = { headline: summary ? unescapeText(summary.value).trim() : '' }
+  const text = description ? unescapeText(description.value).trim() : ''
+  if (text || url) event.description = [text, url].filter(Boolean).join(' - ')
+  if (categories.length > tags.length) event.milestone = true
+  if (tags.length > 0) event.tags = tags
+  if (endDate && endDate > date) event.endDate = endDate
+
+  return { date, event }
+}
+
+/**
+ * Parse an .ics file into EventsData, one entry per VEVENT
+ *
+ * - SUMMARY becomes the headline; DESCRIPTION (and URL) the description
+ * - Multi-day events (DTEND or DURATION) get an endDate
+ * - CATEGORIES become tags, and the "milestone" category marks a milestone
+ * - Recurring (RRULE) and cancelled events are skipped: a life event happens once
+ */
+export function parseIcs(source: string, filePath: string): EventsData {
+  const events: EventsData = {}
+  let current: ContentLine[] | null = null
+  let startLine = 0
+
+  for (const { text, line } of unfoldLines(source)) {
+    const property = parseContentLine(text, line)
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = []
+      startLine = line
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT' && current) {
+      const isRecurring = current.some(item => item.name === 'RRULE')
+      const isCancelled = current.some(item => item.name === 'STATUS' && item.value.toUpperCase() === 'CANCELLED')
+      if (!isRecurring && !isCancelled) {
+        const { date, event } = createEventFromProperties(current, filePath, startLine)
+        events[date] = [...(events[date] ?? []), event]
+      }
+      current = null
+    } else if (current) {
+      current.push(property)
+    }
+  }
+
+  return events
+}
+
+/**
+ * Escape a TEXT value for a content line
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets (continuations start with a space)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let chunk = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      chunks.push(chunk)
+      chunk = ''
+      octets = 0
+    }
+    chunk += char
+    octets += size
+  }
+  chunks.push(chunk)
+
+  return chunks.join('\r\n ')
+}
+
+function formatIcsDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+/**
+ * Stable event UID from its published date and headline, so adding, removing or reordering
+ * other events never changes it; the published date never reveals a hidden day
+ * (occurrence tells apart events with the same headline on the same date)
+ */
+function createEventUid(start: string, headline: string, occurrence: number, slug: string): string {
+  const hash = createHash('sha1').update(`${start}\n${headline}`).digest('hex').slice(0, 16)
+  return `${start}-${hash}${occurrence > 0 ? `-${occurrence}` : ''}@${slug}.life-in-weeks`
+}
+
+export interface CalendarFeedOptions {
+  slug: string                 // Profile slug, used in event UIDs
+  name: string                 // Calendar name shown by calendar apps
+  showPersonalEventDates: boolean  // false = every event on the first of its month
+}
+
+/**
+ * Serialize personal events as an iCalendar feed of all-day events
+ *
+ * Exact days are published only where the site shows them (showPersonalEventDates on
+ * and the event not private); other events move to the first of their month, as
+ * single-day events with their length mentioned in the description instead
+ */
+export function serializeIcs(events: EventsData, options: CalendarFeedOptions): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ]
+  const seenUids = new Map<string, number>()
+
+  Object.entries(events)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([date, list]) => list.forEach(event => {
+      const showDay = options.showPersonalEventDates && !event.private
+      const start = showDay ? date : `${date.slice(0, 8)}01`
+      const key = `${start}\n${event.headline}`
+      const occurrence = seenUids.get(key) ?? 0
+      seenUids.set(key, occurrence + 1)
+      const end = showDay && event.endDate && event.endDate > date ? event.endDate : start
+      const notes = [event.description]
+      if (!showDay) {
+        if (event.endDate && event.endDate > date) notes.push(`Lasted ${formatDuration(date, event.endDate)}.`)
+        notes.push('Shown on the first of the month; the exact date is not published.')
+      }
+      const categories = [...(event.milestone ? [MILESTONE_CATEGORY] : []), ...(event.tags ?? [])]
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${createEventUid(start, event.headline, occurrence, options.slug)}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(addDaysToDateString(end, 1))}`,
+        `SUMMARY:${escapeText(event.headline)}`,
+        ...(notes.some(Boolean) ? [`DESCRIPTION:${escapeText(notes.filter(Boolean).join('\n\n'))}`] : []),
+        ...(categories.length > 0 ? [`CATEGORIES:${categories.map(escapeText).join(',')}`] : []),
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      )
+    }))
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
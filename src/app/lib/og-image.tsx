@@ -0,0 +1,79 @@
+// Open Graph images - Link previews rendered from the current timeline
+// Regenerated on request, so the preview always shows this week (server only: reads private dates)
+
+import { ImageResponse } from 'next/og'
+import { ProfileTimeline } from './profile-timeline'
+import { getTimeline } from '../utils/timeline'
+import { layoutClassicRows } from '../utils/classic-layout'
+import { daysBetweenDateStrings, formatDateString } from '../utils/date-processing'
+import { getBirthdayAtAge } from '../utils/granularity'
+import { renderClassicGridSvg } from '../utils/svg-export'
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+// Thumbnail cell size in px (86 rows of 5px cells plus gaps fit the image height)
+const THUMBNAIL_CELL_SIZE = 5
+
+const BACKGROUND = '#f0f8ff'
+const TEXT_COLOR = '#3f5c72'
+
+/**
+ * Weeks lived so far out of the weeks up to maxAge
+ */
+function getWeeksLived(timeline: ProfileTimeline, today: string) {
+  const { weeksConfig, derivedConfig } = timeline
+  const totalWeeks = Math.floor(daysBetweenDateStrings(weeksConfig.startDate, getBirthdayAtAge(weeksConfig, derivedConfig.config.maxAge)) / 7)
+  const weeksLived = Math.min(totalWeeks, Math.max(0, Math.floor(daysBetweenDateStrings(weeksConfig.startDate, today) / 7)))
+  return { weeksLived, totalWeeks, percent: Math.round(weeksLived / totalWeeks * 100) }
+}
+
+/**
+ * Preview of one profile: name, weeks-lived stats and a thumbnail of the classic grid
+ */
+export function renderProfileOgImage(timeline: ProfileTimeline): ImageResponse {
+  const { lifeEvents, weeksConfig, derivedConfig, lifeExpectancy } = timeline
+  const today = formatDateString(new Date())
+
+  // Overlays off: the thumbnail shows the milestone colors of this life
+  const { boxes } = getTimeline(lifeEvents, weeksConfig, {
+    isCompactMode: true,
+    showPersonalEventDates: derivedConfig.config.showPersonalEventDates,
+    lifeExpectancy
+  })
+  const thumbnail = renderClassicGridSvg(layoutClassicRows(boxes, weeksConfig), THUMBNAIL_CELL_SIZE, today)
+  const { weeksLived, totalWeeks, percent } = getWeeksLived(timeline, today)
+
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', width: '100%', height: '100%', padding: 56, background: BACKGROUND, color: TEXT_COLOR, alignItems: 'center', justifyContent: 'space-between' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', maxWidth: 700 }}>
+          <div style={{ fontSize: 64, fontWeight: 800, lineHeight: 1.1 }}>{derivedConfig.title}</div>
+          <div style={{ fontSize: 36, marginTop: 32 }}>
+            {`${weeksLived.toLocaleString('en-US')} weeks lived of ${totalWeeks.toLocaleString('en-US')}`}
+          </div>
+          <div style={{ fontSize: 28, marginTop: 12, opacity: 0.75 }}>
+            {`${percent}% of ${derivedConfig.config.maxAge} years · each box is a week`}
+          </div>
+        </div>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={`data:image/svg+xml;utf8,${encodeURIComponent(thumbnail.svg)}`} width={thumbnail.width} height={thumbnail.height} alt="" />
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  )
+}
+
+/**
+ * Preview of the profile index (several timelines in one deployment)
+ */
+export function renderSiteOgImage(profileCount: number): ImageResponse {
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%', padding: 56, background: BACKGROUND, color: TEXT_COLOR, justifyContent: 'center' }}>
+        <div style={{ fontSize: 80, fontWeight: 800 }}>Life in Weeks</div>
+        <div style={{ fontSize: 36, marginTop: 24 }}>{`${profileCount} lives, each week a little box`}</div>
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  )
+}
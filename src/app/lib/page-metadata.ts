@@ -0,0 +1,23 @@
+// Page metadata - Titles and descriptions from a profile's derived configuration
+// Preview images come from the opengraph-image routes next to each page, the feed from /api/feed.xml
+
+import type { Metadata } from 'next'
+import { Profile } from '../config/profiles'
+import { createDerivedConfig } from '../config/app-config'
+import { getServerConfig } from './server-config'
+
+/**
+ * Title, description and social card text for a profile's pages
+ */
+export function createProfileMetadata(profile: Profile): Metadata {
+  const { title, description } = createDerivedConfig(getServerConfig(profile).BIRTH_DATE, profile)
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'website' },
+    twitter: { card: 'summary_large_image', title, description },
+    // Lets browsers and feed readers discover the profile's event feed
+    alternates: { types: { 'application/atom+xml': `/api/feed.xml?person=${profile.slug}` } },
+  }
+}
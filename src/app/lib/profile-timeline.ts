@@ -0,0 +1,39 @@
+// Profile timeline loader - everything needed to render one person's life
+// This file runs only on the server (reads private dates and the events file)
+
+import { Profile } from '../config/profiles'
+import { createDerivedConfig, DerivedConfig } from '../config/app-config'
+import { createWeeksConfig, EventsData, WeeksConfig } from '../data/life-events'
+import { createLifeExpectancyProjection, LifeExpectancyProjection } from '../utils/life-expectancy'
+import { getServerConfig } from './server-config'
+import { loadEventsFile } from './events-loader'
+
+export interface ProfileTimeline {
+  lifeEvents: EventsData
+  weeksConfig: WeeksConfig
+  derivedConfig: DerivedConfig
+  lifeExpectancy: LifeExpectancyProjection | null  // Survival shading and percentile markers
+}
+
+/**
+ * Load a profile's private dates and life events and derive its configuration
+ */
+export function loadProfileTimeline(profile: Profile): ProfileTimeline {
+  // Private dates are loaded server-side from env vars or the git-ignored secrets file
+  const serverConfig = getServerConfig(profile)
+  const birthDate = serverConfig.BIRTH_DATE
+
+  // Create derived configuration from birth date and the profile's settings
+  const derivedConfig = createDerivedConfig(birthDate, profile)
+
+  // Load life events from the data file, filling {{placeholders}} with private dates
+  const lifeEvents = loadEventsFile(profile.lifeEventsFile, serverConfig.PRIVATE_DATES)
+
+  // Create weeks configuration
+  const weeksConfig = createWeeksConfig(birthDate, derivedConfig)
+
+  // Remaining life from the configured mortality model, as of today
+  const lifeExpectancy = createLifeExpectancyProjection(birthDate, derivedConfig.config)
+
+  return { lifeEvents, weeksConfig, derivedConfig, lifeExpectancy }
+}
@@ -1,18 +1,120 @@
 // Server-side configuration for sensitive data
 // This file runs only on the server and is not exposed to the client
 
-// Get date from environment variable - server-side only
-function getRequiredDate(envVar: string): string {
-  if (process.env[envVar]) {
-    return process.env[envVar]!
+import fs from 'fs'
+import path from 'path'
+import { parse as parseYaml } from 'yaml'
+import { PrivateDates } from '../data/life-events'
+import { Profile, PROFILES } from '../config/profiles'
+import { isValidDateString } from '../utils/date-processing'
+
+// Where a profile's private dates are read from
+interface PrivateDatesSource {
+  envPrefixes: string[]             // e.g. PRIVATE_DATE_ALEX_FIRST_JOB -> {{firstJob}}
+  file: string                      // Git-ignored secrets file, relative to project root
+}
+
+function getPrivateDatesSource(profile: Profile): PrivateDatesSource {
+  const slug = profile.slug.toUpperCase().replace(/[^A-Z0-9]+/g, '_')
+  return {
+    envPrefixes: profile.privateDates?.envPrefixes ?? [`PRIVATE_DATE_${slug}_`],
+    file: profile.privateDates?.file ?? `private-dates.${profile.slug}.local.yaml`,
+  }
+}
+
+// Convert an env var suffix to a placeholder name (FIRST_JOB -> firstJob)
+function toPlaceholderName(envSuffix: string): string {
+  return envSuffix
+    .toLowerCase()
+    .replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+}
+
+// Read name -> date pairs from the secrets file (YAML or JSON), if it exists
+function readPrivateDatesFile(file: string): PrivateDates {
+  const filePath = path.resolve(process.cwd(), file)
+  if (!fs.existsSync(filePath)) {
+    return {}
+  }
+
+  const data = parseYaml(fs.readFileSync(filePath, 'utf8')) ?? {}
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${filePath}: expected name: YYYY-MM-DD pairs`)
+  }
+
+  return Object.fromEntries(Object.entries(data).map(([name, value]) => [name, String(value)]))
+}
+
+// Read private dates from environment variables with the profile's prefixes
+// Env vars are shared by every profile (and the rest of the system), so a broad prefix such as
+// PRIVATE_DATE_ skips other profiles' variables, and values that are not dates are skipped with a warning
+function readPrivateDatesFromEnv(profile: Profile, envPrefixes: string[]): PrivateDates {
+  const dates: PrivateDates = {}
+  const otherPrefixes = PROFILES
+    .filter(other => other.slug !== profile.slug)
+    .flatMap(other => getPrivateDatesSource(other).envPrefixes)
+
+  Object.entries(process.env).forEach(([envVar, value]) => {
+    const prefix = envPrefixes.find(p => envVar.startsWith(p))
+    if (!prefix || !value) return
+
+    const belongsToOther = otherPrefixes.some(other => other.length > prefix.length && envVar.startsWith(other))
+    if (belongsToOther) return
+
+    if (!isValidDateString(value)) {
+      console.warn(`Skipping ${envVar} for profile "${profile.slug}": not a YYYY-MM-DD date`)
+      return
+    }
+    dates[toPlaceholderName(envVar.slice(prefix.length))] = value
+  })
+
+  return dates
+}
+
+/**
+ * Load a profile's private dates (secrets file first, environment variables override)
+ * Any name can be referenced from the profile's events file as {{name}}
+ */
+export function loadPrivateDates(profile: Profile): PrivateDates {
+  const source = getPrivateDatesSource(profile)
+  const dates = {
+    ...readPrivateDatesFile(source.file),
+    ...readPrivateDatesFromEnv(profile, source.envPrefixes),
+  }
+
+  // The secrets file belongs to this profile, so a bad value there is an error
+  Object.entries(dates).forEach(([name, value]) => {
+    if (!isValidDateString(value)) {
+      throw new Error(`Private date "${name}" for profile "${profile.slug}" must be a YYYY-MM-DD date, got "${value}"`)
+    }
+  })
+
+  if (!dates.birthDate) {
+    throw new Error(`Private date "birthDate" is required for profile "${profile.slug}". Set ${source.envPrefixes[source.envPrefixes.length - 1]}BIRTH_DATE in your .env.local file, or add it to ${source.file}.`)
   }
-  throw new Error(`Environment variable ${envVar} is required for sensitive dates. Please check your .env.local file.`)
+
+  return dates
+}
+
+export interface ServerConfig {
+  BIRTH_DATE: string
+  PRIVATE_DATES: PrivateDates
 }
 
-// Server-side sensitive dates configuration
-export const SERVER_CONFIG = {
-  BIRTH_DATE: getRequiredDate("REAL_BIRTH_DATE"),
-  MET_WIFE_DATE: getRequiredDate("REAL_MET_WIFE_DATE"), 
-  MARRIAGE_DATE: getRequiredDate("REAL_MARRIAGE_DATE"),
-  CITIZENSHIP_DATE: getRequiredDate("REAL_CITIZENSHIP_DATE")
-}
\ No newline at end of file
+// Loaded once per profile and server process
+const serverConfigCache = new Map<string, ServerConfig>()
+
+/**
+ * Server-side sensitive dates configuration for a profile
+ */
+export function getServerConfig(profile: Profile): ServerConfig {
+  const cached = serverConfigCache.get(profile.slug)
+  if (cached) return cached
+
+  const privateDates = loadPrivateDates(profile)
+  const serverConfig = {
+    BIRTH_DATE: privateDates.birthDate,
+    PRIVATE_DATES: privateDates,
+  }
+  serverConfigCache.set(profile.slug, serverConfig)
+  return serverConfig
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { createDerivedConfig } from '../config/app-config'
+import { createWeeksConfig, EventsData } from '../data/life-events'
+import type { ProfileTimeline } from './profile-timeline'
+import { createTimelineJson } from './timeline-json'
+
+// 1986-10-19 and 2009-01-11 are Sundays: the JSON weeks (counted from 1986-10-01) start on them
+const privateDates = { birthDate: '1986-10-19', marriageDate: '2009-01-11' }
+
+function createProfileTimeline(lifeEvents: EventsData, showPersonalEventDates: boolean): ProfileTimeline {
+  const derivedConfig = createDerivedConfig(privateDates.birthDate, {
+    slug: 'test',
+    name: 'Test',
+    lifeEventsFile: 'content/life-events.yaml',
+    public: true,
+    config: { maxAge: 30, showPersonalEventDates, showLifeExpectancy: false }
+  })
+  return { lifeEvents, weeksConfig: createWeeksConfig(privateDates.birthDate, derivedConfig), derivedConfig, lifeExpectancy: null }
+}
+
+// Events as the loader resolves them: {{placeholders}} filled in and marked private
+const lifeEvents: EventsData = {
+  '1986-10-19': [{ headline: '🐣 Born', milestone: true, private: true }],
+  '2004-09-14': [{ headline: '🎓 College' }],
+  '2009-01-11': [{ headline: '💍 Married', milestone: true, private: true }]
+}
+
+describe('createTimelineJson', () => {
+  it('starts at age 0', () => {
+    const { boxes } = createTimelineJson(createProfileTimeline(lifeEvents, false), {}, privateDates)
+    expect(boxes[0]).toMatchObject({ date: '1986-09-28', age: 0 })
+    expect(boxes.every(box => (box.age ?? 0) >= 0)).toBe(true)
+  })
+
+  it('shows private events by month only, even where weeks start on private dates', () => {
+    const { boxes } = createTimelineJson(createProfileTimeline(lifeEvents, true), {}, privateDates)
+    const married = boxes.flatMap(box => box.events ?? []).find(event => event.headline === '💍 Married')
+
+    expect(boxes.some(box => box.date === '2009-01-11')).toBe(true)
+    expect(married).toMatchObject({ dateLabel: 'Jan 2009', private: true })
+    expect(JSON.stringify(boxes)).not.toContain('Jan 11, 2009')
+  })
+
+  it('fails when a private day leaks through an event written with the literal date', () => {
+    const leaking = { ...lifeEvents, '2009-01-11': [...lifeEvents['2009-01-11'], { headline: '🥂 Reception' }] }
+
+    expect(() => createTimelineJson(createProfileTimeline(leaking, true), {}, privateDates))
+      .toThrow('a private date still shows its day')
+  })
+})
@@ -0,0 +1,145 @@
+// Timeline JSON - The computed boxes of a timeline for other tools (/api/timeline)
+// Redacted on the server: the birth date and private-date events only ever show their month
+// This file runs only on the server (reads private dates)
+
+import { createWeeksConfig, EventsData, LifeEvent, PrivateDates } from '../data/life-events'
+import { PERSONAL_EVENT_TYPE } from '../data/overlays'
+import type { ProfileTimeline } from './profile-timeline'
+import { BoxEvent, GridBox } from '../utils/grid-layout'
+import { getTimeline } from '../utils/timeline'
+import { addDaysToDateString, daysBetweenDateStrings, formatTooltipDate } from '../utils/date-processing'
+import { createLifeExpectancyProjection } from '../utils/life-expectancy'
+import { OverlaySettings } from '../utils/overlay-params'
+
+// Bumped whenever a field is renamed or removed (new fields keep the version)
+export const TIMELINE_JSON_VERSION = 1
+
+export interface TimelineJsonBox {
+  type: GridBox['type']
+  date: string                 // Week start (birthdays: the birthday, counted from the birth month)
+  age?: number
+  year?: number
+  label: string
+  color?: string               // Milestone background color
+  eventType?: string           // 'personal' or the overlay id of the main event
+  tags?: string[]
+  events?: BoxEvent[]          // Dates as labels: month and year where the day is private (private: true)
+}
+
+export interface TimelineJson {
+  version: number
+  generatedAt: string
+  profile: {
+    slug: string
+    title: string
+    birthYear: number
+    endYear: number
+    maxAge: number
+  }
+  overlays: OverlaySettings
+  boxes: TimelineJsonBox[]
+}
+
+// Date label without a day ("Oct 1986"), as formatTooltipDate writes it when the day is hidden
+const MONTH_LABEL_PATTERN = /^[A-Z][a-z]{2} \d{4}$/
+
+function toMonthStart(date: string): string {
+  return `${date.slice(0, 8)}01`
+}
+
+/**
+ * Move private personal events to the first of their month, keeping their length
+ */
+function roundPrivateEvents(lifeEvents: EventsData): EventsData {
+  const rounded: EventsData = {}
+  Object.entries(lifeEvents).forEach(([date, events]) => {
+    events.forEach(event => {
+      let key = date
+      let roundedEvent: LifeEvent = event
+      if (event.private) {
+        key = toMonthStart(date)
+        const endDate = event.endDate && addDaysToDateString(event.endDate, -daysBetweenDateStrings(key, date))
+        roundedEvent = { ...event, endDate }
+      }
+      rounded[key] = [...(rounded[key] ?? []), roundedEvent]
+    })
+  })
+  return rounded
+}
+
+/**
+ * Fail closed if a private date still shows its day
+ *
+ * No personal event may name a private date with its day ("Oct 19, 1986"), and private
+ * events must not mention a private date at all. Week dates are not searched: weeks start on
+ * Sundays and may fall on a private date without revealing it
+ */
+function assertPrivateDatesRedacted(boxes: TimelineJsonBox[], privateDates: string[]): void {
+  const dayLabels = privateDates.map(date => formatTooltipDate(date, true))
+
+  for (const box of boxes) {
+    for (const event of box.events ?? []) {
+      if (event.eventType !== PERSONAL_EVENT_TYPE) continue
+
+      const serialized = JSON.stringify(event)
+      const leaks = dayLabels.some(label => serialized.includes(label)) ||
+        (event.private && (!MONTH_LABEL_PATTERN.test(event.dateLabel) || privateDates.some(date => serialized.includes(date))))
+      if (leaks) {
+        throw new Error('Timeline JSON redaction failed: a private date still shows its day')
+      }
+    }
+  }
+}
+
+/**
+ * Build the versioned, redacted JSON of a profile's timeline
+ *
+ * The weeks are counted from the first of the birth month, so week dates and birthdays
+ * never reveal the birth date; private events move to the first of their month and
+ * personal dates show the day only where the site does
+ */
+export function createTimelineJson(
+  timeline: ProfileTimeline,
+  overlays: OverlaySettings,
+  privateDates: PrivateDates
+): TimelineJson {
+  const { lifeEvents, weeksConfig, derivedConfig } = timeline
+  const birthMonth = toMonthStart(weeksConfig.startDate)
+
+  const { boxes } = getTimeline(roundPrivateEvents(lifeEvents), createWeeksConfig(birthMonth, derivedConfig), {
+    overlays,
+    showPersonalEventDates: derivedConfig.config.showPersonalEventDates,
+    lifeExpectancy: createLifeExpectancyProjection(birthMonth, derivedConfig.config)
+  })
+
+  const result: TimelineJson = {
+    version: TIMELINE_JSON_VERSION,
+    generatedAt: new Date().toISOString(),
+    profile: {
+      slug: derivedConfig.slug,
+      title: derivedConfig.title,
+      birthYear: derivedConfig.birthYear,
+      endYear: derivedConfig.endYear,
+      maxAge: derivedConfig.config.maxAge
+    },
+    overlays,
+    boxes: boxes.map(box => ({
+      type: box.type,
+      date: box.date,
+      age: box.age,
+      year: box.year,
+      label: box.label,
+      color: box.color,
+      eventType: box.eventType,
+      tags: box.tags,
+      events: box.events
+    }))
+  }
+
+  // Private events come from {{placeholders}}; the birth date is private too
+  // (dates on the first of a month are what rounding produces, so they cannot leak more)
+  const sensitiveDates = [weeksConfig.startDate, ...Object.values(privateDates)]
+  assertPrivateDatesRedacted(result.boxes, sensitiveDates.filter(date => !date.endsWith('-01')))
+
+  return result
+}
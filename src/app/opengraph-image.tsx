@@ -0,0 +1,19 @@
+// Link preview of the root URL: the single profile's timeline, or the profile index
+
+import { PROFILES, getPublicProfiles } from './config/profiles'
+import { loadProfileTimeline } from './lib/profile-timeline'
+import { OG_IMAGE_SIZE, renderProfileOgImage, renderSiteOgImage } from './lib/og-image'
+
+export const size = OG_IMAGE_SIZE
+export const contentType = 'image/png'
+export const alt = 'Life in Weeks - each week of a life as a little box'
+
+// Rendered on request rather than at build time, so the preview shows the current week
+export const dynamic = 'force-dynamic'
+
+export default function Image() {
+  if (PROFILES.length === 1) {
+    return renderProfileOgImage(loadProfileTimeline(PROFILES[0]))
+  }
+  return renderSiteOgImage(getPublicProfiles().length)
+}
@@ -6,7 +6,9 @@
  * and passes the processed data to the client component.
  * 
  * Key Features:
- * - Server-side loading of sensitive dates from environment variables
+ * - Server-side loading of private dates from environment variables or a secrets file
+ * - Life events loaded from an editable data file (no code changes needed)
+ * - Several profiles per deployment, each at /[person] (see config/profiles.ts)
  * - Privacy protection - sensitive data never exposed to client bundle
  * - Responsive grid layout with pixel-perfect calculations
  * - Interactive tooltips and decade navigation
@@ -16,42 +18,34 @@
  * @since 2024
  */
 
-import { SERVER_CONFIG } from './lib/server-config'
-import { createLifeEvents, createWeeksConfig, SensitiveDates } from './data/life-events'
-import { createDerivedConfig } from './config/app-config'
-import { LifeWeeksClient } from './components/life-weeks-client'
+import type { Metadata } from 'next'
+import { PROFILES, getPublicProfiles } from './config/profiles'
+import { createProfileMetadata } from './lib/page-metadata'
+import { ProfileTimelinePage } from './components/profile-timeline-page'
+import { ProfileIndex } from './components/profile-index'
+import { SearchParams } from './utils/overlay-params'
 import './weeks.css'
 
+/**
+ * Title and description of the single profile (the index keeps the layout defaults)
+ */
+export function generateMetadata(): Metadata {
+  return PROFILES.length === 1 ? createProfileMetadata(PROFILES[0]) : {}
+}
+
 /**
  * Main HomePage Server Component
  * 
- * Loads sensitive data server-side and passes processed data to client
+ * With a single profile the root URL shows that timeline directly (as before);
+ * with several, it lists the public profiles linking to /[person]
+ * Overlay toggles are read from the URL (?world=0&presidents=1) so shared links match
  * 
  * @returns The complete Life in Weeks application
  */
-export default function HomePage() {
-  // Load sensitive dates from server-side environment variables
-  const sensitiveDates: SensitiveDates = {
-    birthDate: SERVER_CONFIG.BIRTH_DATE,
-    metWifeDate: SERVER_CONFIG.MET_WIFE_DATE,
-    marriageDate: SERVER_CONFIG.MARRIAGE_DATE,
-    citizenshipDate: SERVER_CONFIG.CITIZENSHIP_DATE
+export default async function HomePage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  if (PROFILES.length === 1) {
+    return <ProfileTimelinePage profile={PROFILES[0]} searchParams={await searchParams} />
   }
 
-  // Create derived configuration from birth date
-  const derivedConfig = createDerivedConfig(sensitiveDates.birthDate)
-  
-  // Create life events with sensitive dates
-  const lifeEvents = createLifeEvents(sensitiveDates, derivedConfig)
-  
-  // Create weeks configuration
-  const weeksConfig = createWeeksConfig(sensitiveDates.birthDate, derivedConfig)
-
-  return (
-    <LifeWeeksClient 
-      lifeEvents={lifeEvents}
-      weeksConfig={weeksConfig}
-      derivedConfig={derivedConfig}
-    />
-  )
-}
\ No newline at end of file
+  return <ProfileIndex profiles={getPublicProfiles()} />
+}
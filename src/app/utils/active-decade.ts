@@ -0,0 +1,43 @@
+// Active Decade - Which decade section is under the sticky navigation
+// Tracked with IntersectionObserver on the grids' decade sections ([data-decade]),
+// so scrolling never has to query or measure boxes
+
+import { useEffect, useState, RefObject } from 'react'
+
+// Band below the sticky header where a decade section counts as active
+const ACTIVE_BAND_MARGIN = '-70px 0px -75% 0px'
+
+/**
+ * Track the decade section crossing the band below the sticky header
+ * sectionsKey must change whenever the grid renders a different set of sections
+ */
+export function useActiveDecade(containerRef: RefObject<HTMLElement | null>, sectionsKey: string): string {
+  const [activeDecade, setActiveDecade] = useState('decade-0')
+  
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || typeof IntersectionObserver === 'undefined') return
+    
+    // Sections currently in the band; the earliest one wins
+    const intersecting = new Map<Element, number>()
+    
+    const observer = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        if (entry.isIntersecting) {
+          intersecting.set(entry.target, Number((entry.target as HTMLElement).dataset.decade))
+        } else {
+          intersecting.delete(entry.target)
+        }
+      }
+      
+      if (intersecting.size > 0) {
+        setActiveDecade(`decade-${Math.min(...intersecting.values())}`)
+      }
+    }, { rootMargin: ACTIVE_BAND_MARGIN })
+    
+    container.querySelectorAll('[data-decade]').forEach(section => observer.observe(section))
+    return () => observer.disconnect()
+  }, [containerRef, sectionsKey])
+  
+  return activeDecade
+}
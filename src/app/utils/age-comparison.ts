@@ -0,0 +1,55 @@
+// Age Comparison Utilities - Align two timelines by age instead of calendar date
+// Used by the comparison view at /compare/[a]/[b]
+
+import { GridBox } from './grid-layout'
+
+/**
+ * Group boxes by year of age (the birthday box starts each year)
+ * Boxes carry the calendar year they were generated for, so age = year - startYear
+ */
+export function groupBoxesByAge(boxes: GridBox[], startYear: number): Map<number, GridBox[]> {
+  const groups = new Map<number, GridBox[]>()
+  
+  for (const box of boxes) {
+    if (box.year === undefined) continue
+    const age = box.year - startYear
+    if (!groups.has(age)) {
+      groups.set(age, [])
+    }
+    groups.get(age)!.push(box)
+  }
+  
+  return groups
+}
+
+/**
+ * Check if a box is a week containing a personal milestone
+ */
+export function isMilestoneBox(box: GridBox, milestoneWeeks: Set<string>): boolean {
+  return box.type === 'event' && milestoneWeeks.has(box.date)
+}
+
+/**
+ * Ages at which a person had at least one milestone
+ */
+export function getMilestoneAges(boxesByAge: Map<number, GridBox[]>, milestoneWeeks: Set<string>): Set<number> {
+  const ages = new Set<number>()
+  
+  boxesByAge.forEach((boxes, age) => {
+    if (boxes.some(box => isMilestoneBox(box, milestoneWeeks))) {
+      ages.add(age)
+    }
+  })
+  
+  return ages
+}
+
+/**
+ * Ages at which every compared person had a milestone
+ */
+export function getOverlappingMilestoneAges(milestoneAges: Set<number>[]): Set<number> {
+  if (milestoneAges.length === 0) return new Set()
+  
+  const [first, ...rest] = milestoneAges
+  return new Set([...first].filter(age => rest.every(ages => ages.has(age))))
+}
@@ -0,0 +1,51 @@
+// Box Metrics - Keeps the measured box model of grid cells in sync with the rendered CSS
+// Kept apart from text-measurement.ts so the pure layout code can also run in server components
+
+import { useEffect, useState, RefObject } from 'react'
+import { BoxMetrics, readBoxMetrics, clearTextMeasurementCache } from './text-measurement'
+
+let webFontsLoaded = false
+
+function metricsKey(metrics: BoxMetrics): string {
+  return JSON.stringify(metrics)
+}
+
+/**
+ * Keep box metrics in sync with the grid: re-read when the mode or width changes
+ * (breakpoints change font sizes) and once web fonts have loaded
+ */
+export function useBoxMetrics(
+  containerRef: RefObject<HTMLElement | null>,
+  compactMode: boolean,
+  containerWidth: number
+): BoxMetrics | null {
+  const [metrics, setMetrics] = useState<BoxMetrics | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const update = (fontsLoaded: boolean) => {
+      if (cancelled || !containerRef.current) return
+      const next = readBoxMetrics(containerRef.current, compactMode)
+      setMetrics(prev => (!fontsLoaded && prev && metricsKey(prev) === metricsKey(next) ? prev : next))
+    }
+
+    update(false)
+    // Canvas measures with whatever font is loaded, so measure again once the real one is
+    if (!webFontsLoaded) {
+      document.fonts?.ready.then(() => {
+        if (!webFontsLoaded) {
+          webFontsLoaded = true
+          clearTextMeasurementCache()
+        }
+        update(true)
+      })
+    }
+
+    return () => {
+      cancelled = true
+    }
+  }, [containerRef, compactMode, containerWidth])
+
+  return metrics
+}
@@ -0,0 +1,74 @@
+// Classic Layout - The original Wait But Why grid: one row per year of age, 52 columns
+// Reuses the boxes from buildTimeline, so events and milestone colors match the other views
+
+import { WeeksConfig } from '../data/life-events'
+import { GridBox } from './grid-layout'
+import { groupBoxesByAge } from './age-comparison'
+import { addDaysToDateString, daysBetweenDateStrings } from './date-processing'
+import { getBirthdayAtAge } from './granularity'
+
+export const CLASSIC_COLUMNS = 52
+
+// Week numbers labeled along the top axis, and how often ages are labeled down the side
+export const WEEK_AXIS_LABELS = [1, 13, 26, 39, 52]
+export const AGE_LABEL_INTERVAL = 5
+
+export interface ClassicRow {
+  age: number
+  birthday: string              // Date this row starts (YYYY-MM-DD)
+  cells: (GridBox | null)[]     // Always CLASSIC_COLUMNS long; null where no week falls
+}
+
+/**
+ * Lay boxes out as one row per year of age with 52 weekly cells
+ *
+ * Cell n covers days 7n to 7n+6 after the birthday (the last cell runs to the
+ * next birthday). Each box lands in the cell containing its midweek day; when
+ * two boxes share a cell, the one with an event wins. The week holding a
+ * birthday belongs to the previous year, so when the first cell is left empty
+ * the birthday box fills it (as a 🎂; the age is shown on the axis).
+ */
+export function layoutClassicRows(boxes: GridBox[], weeksConfig: WeeksConfig): ClassicRow[] {
+  const boxesByAge = groupBoxesByAge(boxes, weeksConfig.startYear)
+  const rows: ClassicRow[] = []
+  
+  for (let age = 0; age <= weeksConfig.endYear - weeksConfig.startYear; age++) {
+    const birthday = getBirthdayAtAge(weeksConfig, age)
+    const cells: (GridBox | null)[] = Array(CLASSIC_COLUMNS).fill(null)
+    
+    let birthdayBox: GridBox | undefined
+    for (const box of boxesByAge.get(age) ?? []) {
+      if (box.type === 'birthday') {
+        birthdayBox = box
+        continue
+      }
+      
+      const midweek = addDaysToDateString(box.date, 3)
+      const column = Math.min(CLASSIC_COLUMNS - 1, Math.max(0, Math.floor(daysBetweenDateStrings(birthday, midweek) / 7)))
+      const existing = cells[column]
+      if (!existing || (existing.type !== 'event' && box.type === 'event')) {
+        cells[column] = box
+      }
+    }
+    
+    if (!cells[0] && birthdayBox) {
+      cells[0] = { ...birthdayBox, label: '🎂' }
+    }
+    
+    rows.push({ age, birthday, cells })
+  }
+  
+  return rows
+}
+
+/**
+ * Group rows into decades of age (anchors for the sticky decade navigation)
+ */
+export function groupClassicRowsByDecade(rows: ClassicRow[]): { age: number, rows: ClassicRow[] }[] {
+  const decades: { age: number, rows: ClassicRow[] }[] = []
+  rows.forEach(row => {
+    if (row.age % 10 === 0 || decades.length === 0) decades.push({ age: row.age - (row.age % 10), rows: [] })
+    decades[decades.length - 1].rows.push(row)
+  })
+  return decades
+}
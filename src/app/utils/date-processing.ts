@@ -192,6 +192,65 @@ function parseLocalDate(dateString: string): Date {
   return new Date(year, month - 1, day) // month is 0-indexed
 }
 
+/**
+ * Check if a string is a real calendar date in YYYY-MM-DD format
+ * Rejects impossible dates like 2023-02-30 that Date would silently roll over
+ */
+export function isValidDateString(dateString: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) return false
+  
+  const [year, month, day] = dateString.split('-').map(Number)
+  const date = parseLocalDate(dateString)
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string, returning a YYYY-MM-DD string
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const date = parseLocalDate(dateString)
+  date.setDate(date.getDate() + days)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if end is earlier)
+ */
+export function daysBetweenDateStrings(startDateString: string, endDateString: string): number {
+  const start = parseLocalDate(startDateString)
+  const end = parseLocalDate(endDateString)
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
+}
+
+/**
+ * Format the length of a date range (end date inclusive) for tooltips
+ * e.g. "5 days", "3 weeks", "7 months", "2 years 3 months"
+ */
+export function formatDuration(startDateString: string, endDateString: string): string {
+  const start = parseLocalDate(startDateString)
+  const end = parseLocalDate(endDateString)
+  const days = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`
+  
+  if (days < 14) {
+    return plural(days, 'day')
+  }
+  if (days < 60) {
+    return plural(Math.round(days / 7), 'week')
+  }
+  
+  const months = Math.round(days / 30.44)  // Average month length
+  if (months < 24) {
+    return plural(months, 'month')
+  }
+  
+  const years = Math.floor(months / 12)
+  const remainingMonths = months % 12
+  return remainingMonths > 0 ? `${plural(years, 'year')} ${plural(remainingMonths, 'month')}` : plural(years, 'year')
+}
+
 /**
  * Format date for tooltip display based on privacy settings
  * If showFullDate is false, returns only month/year (e.g., "Oct 1986")
@@ -0,0 +1,13 @@
+// Escaping for generated markup - SVG export, Atom feed and HTML descriptions share one escaper
+
+/**
+ * Escape text for use in XML or HTML content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
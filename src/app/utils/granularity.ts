@@ -0,0 +1,131 @@
+// Time Granularity - The length of time each box stands for
+// Weeks are the classic view; days zoom into one year of age, months and years zoom out
+
+import { WeeksConfig } from '../data/life-events'
+import { addDaysToDateString } from './date-processing'
+
+export type Granularity = 'days' | 'weeks' | 'months' | 'years'
+
+export const GRANULARITIES: { id: Granularity, label: string, title: string }[] = [
+  { id: 'days', label: '☀️ Days', title: 'Every day of one year of age' },
+  { id: 'weeks', label: '📅 Weeks', title: 'Every week of a life' },
+  { id: 'months', label: '🌙 Months', title: 'Every month of a life (about 1,000 boxes)' },
+  { id: 'years', label: '🎂 Years', title: 'A life at a glance, one box per year of age' },
+]
+
+export const DEFAULT_GRANULARITY: Granularity = 'weeks'
+
+// A span of time shown as one box (both ends inclusive, YYYY-MM-DD)
+export interface Period {
+  start: string
+  end: string
+  age: number          // Age in whole years at the start of the period
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+/**
+ * Date of the birthday at an age (Feb 29 rolls over to Mar 1, like the week timeline)
+ */
+export function getBirthdayAtAge(weeksConfig: WeeksConfig, age: number): string {
+  if (age === 0) return weeksConfig.startDate
+  const year = weeksConfig.startYear + age
+  return addDaysToDateString(`${year}-${weeksConfig.startMonth}-01`, parseInt(weeksConfig.startDay) - 1)
+}
+
+/**
+ * Periods of one year of age, one per day
+ * The year runs from the first of the birthday month, so where the grid starts never gives
+ * the birthday away (day tooltips name the exact date); every day keeps the same age
+ */
+function getDayPeriods(weeksConfig: WeeksConfig, age: number): Period[] {
+  const periods: Period[] = []
+  const start = `${weeksConfig.startYear + age}-${weeksConfig.startMonth}-01`
+  const end = `${weeksConfig.startYear + age + 1}-${weeksConfig.startMonth}-01`
+  for (let date = start; date < end; date = addDaysToDateString(date, 1)) {
+    periods.push({ start: date, end: date, age })
+  }
+  return periods
+}
+
+/**
+ * Calendar months from the birth month to the last birthday month
+ */
+function getMonthPeriods(weeksConfig: WeeksConfig): Period[] {
+  const periods: Period[] = []
+  const birthMonth = parseInt(weeksConfig.startMonth)
+  let nextBirthdayAge = 1
+
+  for (let year = weeksConfig.startYear; year <= weeksConfig.endYear; year++) {
+    for (let month = 1; month <= 12; month++) {
+      if (year === weeksConfig.startYear && month < birthMonth) continue
+      if (year === weeksConfig.endYear && month > birthMonth) break
+
+      const start = `${year}-${pad(month)}-01`
+      const end = addDaysToDateString(month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`, -1)
+      if (start >= getBirthdayAtAge(weeksConfig, nextBirthdayAge)) nextBirthdayAge++
+      periods.push({ start, end, age: nextBirthdayAge - 1 })
+    }
+  }
+  return periods
+}
+
+/**
+ * Years of age, birthday to the day before the next birthday
+ */
+function getYearPeriods(weeksConfig: WeeksConfig): Period[] {
+  return Array.from({ length: weeksConfig.endYear - weeksConfig.startYear + 1 }, (_, age) => ({
+    start: getBirthdayAtAge(weeksConfig, age),
+    end: addDaysToDateString(getBirthdayAtAge(weeksConfig, age + 1), -1),
+    age
+  }))
+}
+
+/**
+ * Periods for a granularity other than weeks (weeks keep their own birthday-aligned logic)
+ * Days cover a single year of age, given by dayViewAge
+ */
+export function getPeriods(weeksConfig: WeeksConfig, granularity: Exclude<Granularity, 'weeks'>, dayViewAge: number = 0): Period[] {
+  switch (granularity) {
+    case 'days':
+      return getDayPeriods(weeksConfig, dayViewAge)
+    case 'months':
+      return getMonthPeriods(weeksConfig)
+    case 'years':
+      return getYearPeriods(weeksConfig)
+  }
+}
+
+/**
+ * Name of a period for tooltips: "Mar 4, 2015", "Mar 2015" or "Age 25 (Mar 2015 – Feb 2016)"
+ */
+export function formatPeriodLabel(period: Period, granularity: Exclude<Granularity, 'weeks'>): string {
+  const [startYear, startMonth, startDay] = period.start.split('-').map(Number)
+  const month = MONTH_NAMES[startMonth - 1]
+
+  switch (granularity) {
+    case 'days':
+      return `${month} ${startDay}, ${startYear}`
+    case 'months':
+      return `${month} ${startYear}`
+    case 'years': {
+      const [endYear, endMonth] = period.end.split('-').map(Number)
+      return `Age ${period.age} (${month} ${startYear} – ${MONTH_NAMES[endMonth - 1]} ${endYear})`
+    }
+  }
+}
+
+/**
+ * Age whose year contains a date, for picking the year shown in the days view
+ */
+export function getAgeOnDate(weeksConfig: WeeksConfig, date: string): number {
+  let age = 0
+  while (age < weeksConfig.endYear - weeksConfig.startYear && getBirthdayAtAge(weeksConfig, age + 1) <= date) {
+    age++
+  }
+  return age
+}
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { GridBox, ROW_FIT_TOLERANCE, DEFAULT_BOX_METRICS, calculateBoxWidth, calculateBoxWidths, processBoxesIntoRows } from './grid-layout'
+import { BoxMetrics, estimateTextWidth } from './text-measurement'
+
+const FONT_FAMILY = "'Red Hat Display', sans-serif"
+
+// Each breakpoint of weeks.css: viewport, grid width after the side margins, and the
+// box model readBoxMetrics reads there
+const BREAKPOINTS = [
+  { name: 'ultrawide', viewport: 1920, containerWidth: 1536, fontSize: 16, chrome: 10 },
+  { name: 'wide', viewport: 1600, containerWidth: 1120, fontSize: 16, chrome: 10 },
+  { name: 'desktop', viewport: 1200, containerWidth: 720, fontSize: 16, chrome: 10 },
+  { name: 'tablet', viewport: 900, containerWidth: 720, fontSize: 16, chrome: 10 },
+  { name: 'mobile', viewport: 600, containerWidth: 576, fontSize: 12, chrome: 8 },
+  { name: 'extraSmall', viewport: 375, containerWidth: 360, fontSize: 11.04, chrome: 8 }
+]
+
+function getMetrics(compactMode: boolean, fontSize: number, chrome: number): BoxMetrics {
+  // Compact cells use fixed font sizes (!important) at every width
+  return compactMode
+    ? { fonts: { birthday: `12px ${FONT_FAMILY}`, event: `10px ${FONT_FAMILY}` }, chrome: { birthday: 6, event: 6 }, gap: 1, rowHeight: 20 }
+    : { fonts: { birthday: `${fontSize}px ${FONT_FAMILY}`, event: `${fontSize}px ${FONT_FAMILY}` }, chrome: { birthday: chrome, event: chrome }, gap: 1, rowHeight: 28 }
+}
+
+// A proportional font: emoji and CJK are wide, Latin letters vary
+function fakeMeasure(text: string, font: string): number {
+  const fontSize = parseFloat(font)
+  let ems = 0
+  for (const char of text) {
+    if (/[ilI.,' ]/.test(char)) ems += 0.28
+    else if (/[mwMW]/.test(char)) ems += 0.82
+    else if ((char.codePointAt(0) ?? 0) >= 0x2E80) ems += char.length > 1 ? 1.24 : 1
+    else ems += 0.54
+  }
+  return ems * fontSize
+}
+
+const LABELS = [
+  '🐣 Born', '🏫 Kindergarten', '🎓 Graduated with honors', '💼 First job at Initech',
+  '🐧 Antarctica', '🇯🇵 東京に引っ越し', '🏠 Moved', '💍 Married', 'No emoji here', '📷 Wildlife photography'
+]
+
+// Twenty years of weeks, with a birthday each year and labeled events in between
+function createFixtureBoxes(compactMode: boolean): GridBox[] {
+  const boxes: GridBox[] = []
+  for (let age = 0; age < 20; age++) {
+    boxes.push({ type: 'birthday', label: compactMode ? `${age}` : `${age} (${2000 + age})`, date: '', tooltip: '', borderClass: '', backgroundClass: '' })
+    for (let week = 0; week < 52; week++) {
+      const label = week % 9 === 4 ? LABELS[(age + week) % LABELS.length] : ''
+      boxes.push({
+        type: label ? 'event' : 'week',
+        label: compactMode ? [...label].slice(0, 2).join('').trim() : label,
+        date: '',
+        tooltip: '',
+        borderClass: '',
+        backgroundClass: ''
+      })
+    }
+  }
+  return boxes
+}
+
+describe('row breaking with measured label widths', () => {
+  beforeAll(() => {
+    const context = {
+      font: '',
+      measureText(text: string) {
+        return { width: fakeMeasure(text, this.font) }
+      }
+    }
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => context }) })
+  })
+
+  afterAll(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('measures labels in the rendered font', () => {
+    const metrics = getMetrics(false, 16, 10)
+    const box = createFixtureBoxes(false).find(box => box.label === '🇯🇵 東京に引っ越し') as GridBox
+    expect(calculateBoxWidth(box, metrics)).toBeCloseTo(fakeMeasure(box.label, metrics.fonts.event) + 10 + 1)
+  })
+
+  describe.each([false, true])('compact mode: %s', compactMode => {
+    describe.each(BREAKPOINTS)('$name ($containerWidth px)', ({ viewport, containerWidth, fontSize, chrome }) => {
+      beforeAll(() => {
+        vi.stubGlobal('window', { innerWidth: viewport })
+      })
+
+      const metrics = getMetrics(compactMode, fontSize, chrome)
+      const rows = () => processBoxesIntoRows(createFixtureBoxes(compactMode), compactMode, containerWidth, metrics)
+      // Rendered width of a row: the last box has no gap after it
+      const rowWidth = (row: GridBox[]) => calculateBoxWidths(row, compactMode, metrics).reduce((a, b) => a + b, 0) - metrics.gap
+
+      it('never overflows the container', () => {
+        for (const row of rows()) {
+          expect(rowWidth(row)).toBeLessThanOrEqual(containerWidth - ROW_FIT_TOLERANCE)
+        }
+      })
+
+      it('fills every row but the last, up to the pixel tolerance', () => {
+        const allRows = rows()
+        allRows.slice(0, -1).forEach((row, index) => {
+          const [nextBox] = calculateBoxWidths(allRows[index + 1].slice(0, 1), compactMode, metrics)
+          // The row ended only because the next box would not have fit
+          expect(rowWidth(row) + nextBox).toBeGreaterThan(containerWidth - ROW_FIT_TOLERANCE)
+        })
+      })
+
+      it('keeps every box, in order', () => {
+        expect(rows().flat()).toEqual(createFixtureBoxes(compactMode))
+      })
+    })
+  })
+
+  it('estimates labels without box metrics, so server and client rows agree', () => {
+    const box = createFixtureBoxes(false).find(box => box.type === 'event') as GridBox
+    const metrics = DEFAULT_BOX_METRICS.normal
+    expect(calculateBoxWidth(box, metrics, true)).toBe(estimateTextWidth(box.label, metrics.fonts.event) + 10 + 1)
+  })
+})
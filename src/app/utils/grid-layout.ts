@@ -1,6 +1,28 @@
 // Grid Layout Utilities for Life in Weeks
 // Implements Gina's complex row-breaking algorithm
 
+import type { ExpectancyMarker } from './life-expectancy'
+import { BoxMetrics, estimateTextWidth, measureTextWidth } from './text-measurement'
+import { breakRowsByWidth, splitIntoRows } from './row-breaking'
+
+// A date-range event (with endDate) covering a box, drawn as a band under it
+export interface GridSpan {
+  headline: string
+  color: string
+  duration: string     // e.g. "3 weeks", shown in tooltips
+  isStart: boolean     // This box contains the start of the range
+}
+
+// An event behind a box, for views that list events as text (dates already respect privacy)
+export interface BoxEvent {
+  headline: string
+  description?: string
+  eventType: string                                // 'personal' or the overlay id it came from
+  dateLabel: string                                // "Mar 4, 2015", or "Mar 2015" when the day is hidden
+  duration?: string                                // Length of a date-range event, e.g. "2 weeks"
+  private?: boolean                                // Date from a {{placeholder}} (never shows the day)
+}
+
 export interface GridBox {
   type: 'birthday' | 'event' | 'week'
   label: string
@@ -10,188 +32,39 @@ export interface GridBox {
   backgroundClass: string
   age?: number
   year?: number
-  eventType?: 'personal' | 'world' | 'president'  // Type of event for styling
+  eventType?: string                               // 'personal' or the overlay id of the main event
+  spans?: GridSpan[]                               // Date-range events covering this box
+  tags?: string[]                                  // Tags of the personal events in this box
+  color?: string                                   // Milestone background color (set by buildTimeline)
+  survival?: number                                // Chance of being alive this week (future weeks only)
+  markers?: ExpectancyMarker[]                     // Life expectancy percentiles reached this week
+  events?: BoxEvent[]                              // Events of this box (week timeline event boxes)
 }
 
-export interface RowBreakCalculation {
-  currentBoxes: number
-  newBoxWidth: number
-  totalAfterAdd: number
-  shouldBreak: boolean
-}
+// Slack left at the end of a row, so sub-pixel rounding never wraps it
+export const ROW_FIT_TOLERANCE = 1
 
-// Responsive layout based on actual measured container widths
-export const GRID_CONSTANTS = {
-  ultrawide: {
-    containerWidth: 1440,     // 1800px × 80% = 1440px available
-    basePadding: 8,           
-    charWidth: 8,             
-    weekBoxMinWidth: 20,      
-  },
-  wide: {
-    containerWidth: 1190,     // 1400px × 85% = 1190px available
-    basePadding: 8,           
-    charWidth: 8,             
-    weekBoxMinWidth: 20,      
-  },
-  desktop: {
-    containerWidth: 668,      // Actual measured width at desktop
-    basePadding: 7,           // Slightly reduced from 8 to match tighter spacing
-    charWidth: 8,             
-    weekBoxMinWidth: 20,      
-  },
-  tablet: {
-    containerWidth: 573,      // Actual measured width at 769px viewport
-    basePadding: 4,           // Slightly reduced from 5 to match tighter spacing
-    charWidth: 7,             
-    weekBoxMinWidth: 17,      
-  },
-  mobile: {
-    containerWidth: 737,      // 768px viewport × 96% = 737px available
-    basePadding: 3,           // Slightly reduced from 4 to match tighter spacing  
-    charWidth: 6,
-    weekBoxMinWidth: 15,
-  },
-  extraSmall: {
-    containerWidth: 307,      // TODO: Measure actual width
-    basePadding: 2,           // Slightly reduced from 3 to match tighter spacing
-    charWidth: 5,
-    weekBoxMinWidth: 12,
+// Font and box model of labeled cells in weeks.css at desktop widths, for rows laid out
+// before the rendered grid has been measured (server rendering, first paint)
+const GRID_FONT_FAMILY = "'Red Hat Display', system-ui, -apple-system, sans-serif"
+
+export const DEFAULT_BOX_METRICS: Record<'normal' | 'compact', BoxMetrics> = {
+  normal: {
+    fonts: { birthday: `16px ${GRID_FONT_FAMILY}`, event: `16px ${GRID_FONT_FAMILY}` },
+    chrome: { birthday: 10, event: 10 },      // padding: 2px 4px + 1px borders
+    gap: 1,
+    rowHeight: 28                             // 26px cells + 2px row margin
   },
   compact: {
-    // Compact mode uses same container widths but smaller cell dimensions
-    ultrawide: {
-      containerWidth: 1440,   // Same as normal ultrawide
-      basePadding: 1,
-      charWidth: 8,
-      weekBoxMinWidth: 8,
-    },
-    wide: {
-      containerWidth: 1190,   // Same as normal wide
-      basePadding: 1,
-      charWidth: 8,
-      weekBoxMinWidth: 8,
-    },
-    desktop: {
-      containerWidth: 668,    // Same as normal desktop
-      basePadding: 1,
-      charWidth: 8,
-      weekBoxMinWidth: 8,
-    },
-    tablet: {
-      containerWidth: 573,    // Same as normal tablet
-      basePadding: 1,
-      charWidth: 7,
-      weekBoxMinWidth: 6,
-    },
-    mobile: {
-      containerWidth: 461,    // Same as normal mobile
-      basePadding: 0,
-      charWidth: 6,
-      weekBoxMinWidth: 5,
-    },
-    extraSmall: {
-      containerWidth: 307,    // Same as normal extraSmall
-      basePadding: 0,
-      charWidth: 5,
-      weekBoxMinWidth: 4,
-    }
+    fonts: { birthday: `12px ${GRID_FONT_FAMILY}`, event: `10px ${GRID_FONT_FAMILY}` },
+    chrome: { birthday: 6, event: 6 },        // padding: 0px 2px + 1px borders
+    gap: 1,
+    rowHeight: 20                             // 20px cells, no row margin
   }
 }
 
-/**
- * Calculate dynamic grid constants based on actual measured container width
- */
-export function calculateDynamicConstants(containerWidth: number, compactMode: boolean = false) {
-  // Calculate character width based on actual CSS font sizes
-  let charWidth: number
-  let basePadding: number
-  let weekBoxMinWidth: number
-  
-  if (compactMode) {
-    // Compact mode: match CSS font-size constraints
-    if (containerWidth <= 480) {
-      charWidth = 7   // CSS: font-size: 7px
-      basePadding = 2 // CSS: padding: 0px 2px = 4px total
-      weekBoxMinWidth = 14 // CSS: 8px min-width + 4px padding + 2px borders
-    } else if (containerWidth <= 768) {
-      charWidth = 8   // CSS: font-size: 8px
-      basePadding = 2 // CSS: padding: 0px 2px = 4px total
-      weekBoxMinWidth = 14 // CSS: 8px min-width + 4px padding + 2px borders
-    } else {
-      charWidth = 10  // CSS: font-size: 12px (desktop compact)
-      basePadding = 2 // CSS: padding: 0px 2px = 4px total
-      weekBoxMinWidth = 16 // Slightly larger for desktop
-    }
-  } else {
-    // Normal mode: existing logic (working fine)
-    if (containerWidth < 350) {
-      charWidth = 5  // Extra small mobile
-    } else if (containerWidth < 500) {
-      charWidth = 6  // Mobile
-    } else if (containerWidth < 650) {
-      charWidth = 7  // Tablet
-    } else {
-      charWidth = 8  // Desktop and larger
-    }
-    basePadding = Math.max(2, Math.min(8, Math.floor(containerWidth / 150)))
-    weekBoxMinWidth = Math.max(12, Math.min(20, Math.floor(containerWidth / 50)))
-  }
-  
-  // Apply safety margin: use 95% of container width to prevent edge-case overflow
-  const safeContainerWidth = Math.floor(containerWidth * 0.95)
-  
-  const baseConstants = {
-    containerWidth: safeContainerWidth, // Use safety margin
-    basePadding,
-    charWidth,
-    weekBoxMinWidth
-  }
-  
-  return baseConstants
-}
-
-/**
- * Get appropriate constants based on current viewport width and compact mode
- * Now supports dynamic container width measurement
- */
-export function getResponsiveConstants(compactMode: boolean = false, measuredWidth?: number) {
-  // If we have a measured width, use dynamic calculation
-  if (measuredWidth && measuredWidth > 0) {
-    return calculateDynamicConstants(measuredWidth, compactMode)
-  }
-  
-  // Fallback to static breakpoint system
-  if (typeof window === 'undefined') {
-    // Server-side rendering fallback
-    return compactMode ? GRID_CONSTANTS.compact.desktop : GRID_CONSTANTS.desktop
-  }
-  
-  const width = window.innerWidth
-  
-  // Determine which breakpoint we're in (matching CSS media queries)
-  let breakpoint: 'ultrawide' | 'wide' | 'desktop' | 'tablet' | 'mobile' | 'extraSmall'
-  if (width < 480) {
-    breakpoint = 'extraSmall'
-  } else if (width <= 768) {  // Changed from < to <= to match CSS
-    breakpoint = 'mobile'
-  } else if (width < 1024) {
-    breakpoint = 'tablet'
-  } else if (width < 1400) {
-    breakpoint = 'desktop'
-  } else if (width < 1800) {
-    breakpoint = 'wide'
-  } else {
-    breakpoint = 'ultrawide'
-  }
-  
-  // Return compact or normal constants for the same breakpoint
-  if (compactMode) {
-    return GRID_CONSTANTS.compact[breakpoint]
-  } else {
-    return GRID_CONSTANTS[breakpoint]
-  }
-}
+// Grid width at desktop, until the container has been measured
+const DEFAULT_CONTAINER_WIDTH = 668
 
 /**
  * Calculate the absolute pixel width for empty week cells
@@ -214,123 +87,111 @@ export function calculateWeekCellWidth(compactMode: boolean = false): number {
 }
 
 /**
- * Calculate the absolute pixel width a text box will take up
+ * Pixel height of one grid row (cell height + row margin) at desktop widths
+ * The same on server and client; the rendered grid measures its own (box metrics) after mount
  */
-export function calculateBoxWidth(label: string, compactMode: boolean = false, measuredWidth?: number): number {
-  const constants = getResponsiveConstants(compactMode, measuredWidth)
-  const labelLength = label.length
-  
-  // Calculate width as: padding + (characters * char width) + padding + border + gap
-  const textWidth = labelLength * constants.charWidth
-  const totalPadding = constants.basePadding * 2  // Left + right padding
-  const borderWidth = 2  // 1px border on each side
-  const gapWidth = 1     // 1px gap between cells
-  
-  return textWidth + totalPadding + borderWidth + gapWidth
+export function calculateRowHeight(compactMode: boolean = false): number {
+  return DEFAULT_BOX_METRICS[compactMode ? 'compact' : 'normal'].rowHeight
 }
 
 /**
- * Simple greedy row breaking using absolute pixel widths
- * Break when adding next box would exceed container width
+ * Calculate the absolute pixel width of a labeled box, including the gap after it
+ * Labels are measured where there is a canvas, otherwise (or when asked to) estimated
  */
-function shouldBreakBeforeBox(currentRowWidth: number, nextBoxLabel: string, compactMode: boolean = false, measuredWidth?: number): boolean {
-  const constants = getResponsiveConstants(compactMode, measuredWidth)
-  const nextBoxWidth = nextBoxLabel ? 
-    calculateBoxWidth(nextBoxLabel, compactMode, measuredWidth) : 
-    calculateWeekCellWidth(compactMode)  // Use new week cell width function
-  const totalAfterAdd = currentRowWidth + nextBoxWidth
-  
-  return totalAfterAdd >= constants.containerWidth
+export function calculateBoxWidth(box: GridBox, metrics: BoxMetrics, estimate: boolean = false): number {
+  const type = box.type === 'birthday' ? 'birthday' : 'event'
+  const font = metrics.fonts[type]
+  const textWidth = (estimate ? null : measureTextWidth(box.label, font)) ?? estimateTextWidth(box.label, font)
+  return textWidth + metrics.chrome[type] + metrics.gap
 }
 
 /**
- * Determine if adding a new box would exceed the container width
- * Uses absolute pixel calculations
+ * Calculate the width of every box for row breaking (each including its gap)
  */
-export function shouldBreakRow(currentWidth: number, newBoxLabel: string, compactMode: boolean = false, measuredWidth?: number): RowBreakCalculation {
-  const constants = getResponsiveConstants(compactMode, measuredWidth)
-  const newBoxWidth = calculateBoxWidth(newBoxLabel, compactMode, measuredWidth)
-  const totalAfterAdd = currentWidth + newBoxWidth
-  
-  return {
-    currentBoxes: currentWidth,  // Now represents pixels, not box count
-    newBoxWidth,
-    totalAfterAdd,
-    shouldBreak: totalAfterAdd >= constants.containerWidth
-  }
+export function calculateBoxWidths(boxes: GridBox[], compactMode: boolean, metrics: BoxMetrics, estimate: boolean = false): number[] {
+  return boxes.map(box => box.type === 'week' || !box.label
+    ? calculateWeekCellWidth(compactMode)
+    : calculateBoxWidth(box, metrics, estimate))
+}
+
+/**
+ * Row width boxes have to fit in
+ * The last box in a row has no gap after it, so its gap is given back
+ */
+export function getAvailableRowWidth(containerWidth: number, metrics: BoxMetrics): number {
+  return containerWidth - ROW_FIT_TOLERANCE + metrics.gap
 }
 
 /**
- * Process boxes into rows using absolute pixel width calculations
+ * Process boxes into rows using absolute pixel widths
  * Break when adding next box would exceed container width
+ * With box metrics (read from the rendered grid) labels are measured; without them rows are
+ * estimated for the desktop stylesheet, identically on server and client
  */
-export function processBoxesIntoRows(boxes: GridBox[], compactMode: boolean = false, measuredWidth?: number): GridBox[][] {
-  const rows: GridBox[][] = []
-  let currentRow: GridBox[] = []
-  let currentRowWidth = 0
-  
-  for (let i = 0; i < boxes.length; i++) {
-    const box = boxes[i]
-    const boxWidth = box.type === 'week' ? 
-      calculateWeekCellWidth(compactMode) :  // Use new week cell width function
-      calculateBoxWidth(box.label, compactMode, measuredWidth)
-    
-    // Check if we need to break before adding this box (width-based only)
-    const shouldBreakWidth = shouldBreakBeforeBox(currentRowWidth, box.label, compactMode, measuredWidth)
-    
-    if (shouldBreakWidth && currentRow.length > 0) {
-      // Finish current row and start new one
-      rows.push([...currentRow])
-      currentRow = []
-      currentRowWidth = 0
-    }
-    
-    // Add box to current row
-    currentRow.push(box)
-    currentRowWidth += boxWidth
-  }
-  
-  // Add final row if it has content
-  if (currentRow.length > 0) {
-    rows.push(currentRow)
-  }
-  
-  return rows
+export function processBoxesIntoRows(boxes: GridBox[], compactMode: boolean = false, containerWidth?: number, metrics?: BoxMetrics | null): GridBox[][] {
+  const boxMetrics = metrics ?? DEFAULT_BOX_METRICS[compactMode ? 'compact' : 'normal']
+  const widths = calculateBoxWidths(boxes, compactMode, boxMetrics, !metrics)
+  const availableWidth = getAvailableRowWidth(containerWidth || DEFAULT_CONTAINER_WIDTH, boxMetrics)
+  return splitIntoRows(boxes, breakRowsByWidth(widths, availableWidth))
 }
 
 /**
- * Group boxes by decade for navigation anchors
+ * Decade sections of a row layout, for navigation anchors and headings
  * Matches Gina's decade section logic
  */
 export interface DecadeSection {
-  decadeId: string
-  age: number
-  boxes: GridBox[]
+  decadeId: string      // Anchor id used by the sticky navigation (decade-20)
+  age: number           // First age of the decade
+  startRow: number      // First row holding a box of this decade
+  endRow: number        // First row of the next section (exclusive)
+}
+
+/**
+ * Get the decade of a box from its age (the birth week starts a few days before birth)
+ */
+function getBoxDecade(box: GridBox): number | undefined {
+  return box.age === undefined ? undefined : Math.floor(Math.max(0, box.age) / 10) * 10
 }
 
-export function groupBoxesByDecade(boxes: GridBox[]): DecadeSection[] {
-  const decades: Map<number, GridBox[]> = new Map()
+/**
+ * Indices of the boxes that start a new decade (not counting the first box)
+ * Used to force row breaks when decades get their own headings
+ */
+export function getDecadeStartIndices(boxes: GridBox[]): number[] {
+  const indices: number[] = []
+  let currentDecade: number | undefined
+  
+  boxes.forEach((box, index) => {
+    const decade = getBoxDecade(box)
+    if (decade === undefined) return
+    if (currentDecade !== undefined && decade > currentDecade) indices.push(index)
+    if (currentDecade === undefined || decade > currentDecade) currentDecade = decade
+  })
   
-  for (const box of boxes) {
-    if (box.age !== undefined) {
-      const decade = Math.floor(box.age / 10) * 10
+  return indices
+}
+
+/**
+ * Group rows into decade sections from the ages of their boxes
+ * A section starts at the row holding the first box of its decade
+ */
+export function groupRowsByDecade(rows: GridBox[][]): DecadeSection[] {
+  const sections: DecadeSection[] = []
+  
+  rows.forEach((row, rowIndex) => {
+    for (const box of row) {
+      const decade = getBoxDecade(box)
+      if (decade === undefined) continue
       
-      if (!decades.has(decade)) {
-        decades.set(decade, [])
+      const last = sections[sections.length - 1]
+      if (!last || decade > last.age) {
+        if (last) last.endRow = rowIndex
+        sections.push({ decadeId: `decade-${decade}`, age: decade, startRow: rowIndex, endRow: rows.length })
       }
-      
-      decades.get(decade)!.push(box)
     }
-  }
+  })
   
-  // Convert to sorted array
-  return Array.from(decades.entries())
-    .sort(([a], [b]) => a - b)
-    .map(([decade, boxes]) => ({
-      decadeId: `decade-${decade}`,
-      age: decade,
-      boxes
-    }))
+  return sections
 }
 
 /**
@@ -340,7 +201,7 @@ export function createTooltip(
   weekStartDate: string,
   description?: string,
   eventDate?: string,
-  eventType?: 'personal' | 'world' | 'president',
+  eventType?: string,
   showPersonalEventDates: boolean = true,
   doing?: string, 
   association?: string, 
@@ -377,6 +238,28 @@ export function createTooltip(
   return `${formattedDate} – ${contextString}`
 }
 
+/**
+ * Create the tooltip line for a date-range event covering a box
+ */
+export function createSpanTooltipLine(span: GridSpan): string {
+  return span.isStart ? `${span.headline} (${span.duration})` : `↳ ${span.headline} (ongoing, ${span.duration})`
+}
+
+/**
+ * Create the band style for boxes covered by date-range events
+ * Each span adds a stacked underline so overlapping ranges stay visible
+ */
+export function createSpanStyle(spans: GridSpan[] | undefined): React.CSSProperties {
+  if (!spans || spans.length === 0) return {}
+  
+  const bandHeight = 3
+  return {
+    boxShadow: spans
+      .map((span, index) => `inset 0 -${bandHeight * (index + 1)}px 0 ${span.color}`)
+      .join(', ')
+  }
+}
+
 /**
  * Parse date string (YYYY-MM-DD) without timezone issues
  * Avoids UTC conversion that causes 1-day offset in some timezones
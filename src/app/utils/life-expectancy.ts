@@ -0,0 +1,159 @@
+// Life Expectancy Model - Remaining lifetime from modelled mortality curves (data/life-tables.ts), conditioned on current age
+// Drives the survival shading of future weeks and the median/P25/P75 markers
+
+import type { AppConfig } from '../config/app-config'
+import { LIFE_TABLES, LIFE_TABLE_AGES, LifeTable } from '../data/life-tables'
+import { addDaysToDateString, formatDateString } from './date-processing'
+
+// Nobody survives past the end of the open 100+ interval
+const MAX_LIFE_TABLE_AGE = 105
+const DAYS_PER_YEAR = 365.2425
+
+export type ExpectancyMarkerId = 'p25' | 'median' | 'p75'
+
+// A percentile of the age at death, drawn on the grid separately from milestones
+export interface ExpectancyMarker {
+  id: ExpectancyMarkerId
+  age: number             // Age in years (fractional)
+  date: string            // Date that age is reached (YYYY-MM-DD)
+  label: string           // Tooltip line
+}
+
+export interface LifeExpectancyProjection {
+  tableLabel: string      // e.g. "🇺🇸 US male"
+  birthDate: string
+  asOf: string            // Date the projection was made (survival is 1 until then)
+  currentAge: number
+  markers: ExpectancyMarker[]
+  survival: number[]      // Chance of being alive at each whole age, given alive today
+}
+
+/**
+ * Survivors at an exact age per birth, from the table's qx
+ * Deaths are spread evenly within each interval (linear interpolation of lx)
+ */
+function survivorsAtAge(table: LifeTable, age: number): number {
+  if (age <= 0) return 1
+  if (age >= MAX_LIFE_TABLE_AGE) return 0
+
+  let survivors = 1
+  for (let i = 0; i < LIFE_TABLE_AGES.length; i++) {
+    const start = LIFE_TABLE_AGES[i]
+    const end = LIFE_TABLE_AGES[i + 1] ?? MAX_LIFE_TABLE_AGE
+    if (age < end) {
+      return survivors * (1 - table.qx[i] * (age - start) / (end - start))
+    }
+    survivors *= 1 - table.qx[i]
+  }
+  return 0
+}
+
+/**
+ * Chance of being alive at a future age, given alive at the current age
+ */
+function conditionalSurvival(table: LifeTable, currentAge: number, age: number): number {
+  if (age <= currentAge) return 1
+  const current = survivorsAtAge(table, currentAge)
+  return current > 0 ? survivorsAtAge(table, age) / current : 0
+}
+
+/**
+ * Age by which the given share of people alive today will still be alive (bisection)
+ */
+function ageAtSurvival(table: LifeTable, currentAge: number, probability: number): number {
+  let low = currentAge
+  let high = MAX_LIFE_TABLE_AGE
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2
+    if (conditionalSurvival(table, currentAge, mid) > probability) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+function ageToDate(birthDate: string, age: number): string {
+  return addDaysToDateString(birthDate, Math.round(age * DAYS_PER_YEAR))
+}
+
+function getAgeInYears(birthDate: string, date: Date): number {
+  const [year, month, day] = birthDate.split('-').map(Number)
+  const birth = new Date(year, month - 1, day)
+  return Math.max(0, (date.getTime() - birth.getTime()) / (DAYS_PER_YEAR * 24 * 60 * 60 * 1000))
+}
+
+/**
+ * Project remaining life from the configured life table, or null when disabled
+ */
+export function createLifeExpectancyProjection(
+  birthDate: string,
+  config: AppConfig,
+  today: Date = new Date()
+): LifeExpectancyProjection | null {
+  if (!config.showLifeExpectancy) return null
+
+  const table = LIFE_TABLES[config.lifeTableCountry][config.lifeTableSex]
+  const currentAge = getAgeInYears(birthDate, today)
+
+  const percentiles: { id: ExpectancyMarkerId, probability: number, describe: (age: number) => string }[] = [
+    { id: 'p25', probability: 0.75, describe: age => `75% chance of reaching ${Math.floor(age)}` },
+    { id: 'median', probability: 0.5, describe: age => `Median life expectancy: ${Math.floor(age)} (50% chance of reaching it)` },
+    { id: 'p75', probability: 0.25, describe: age => `25% chance of reaching ${Math.floor(age)}` },
+  ]
+
+  const markers = percentiles.map(({ id, probability, describe }) => {
+    const age = ageAtSurvival(table, currentAge, probability)
+    return {
+      id,
+      age,
+      date: ageToDate(birthDate, age),
+      label: `⏳ ${describe(age)} – ${table.label} mortality model (approximate)`
+    }
+  })
+
+  const survival = Array.from(
+    { length: MAX_LIFE_TABLE_AGE + 1 },
+    (_, age) => conditionalSurvival(table, currentAge, age)
+  )
+
+  return {
+    tableLabel: table.label,
+    birthDate,
+    asOf: formatDateString(today),
+    currentAge,
+    markers,
+    survival
+  }
+}
+
+/**
+ * Chance of being alive on a date, given alive when the projection was made
+ */
+export function getSurvivalProbability(projection: LifeExpectancyProjection, date: string): number {
+  if (date <= projection.asOf) return 1
+
+  const [year, month, day] = date.split('-').map(Number)
+  const age = getAgeInYears(projection.birthDate, new Date(year, month - 1, day))
+  const lower = Math.floor(age)
+  if (lower >= projection.survival.length - 1) return 0
+
+  const fraction = age - lower
+  return projection.survival[lower] * (1 - fraction) + projection.survival[lower + 1] * fraction
+}
+
+/**
+ * Background shade for a future week: likely weeks stay solid, unlikely ones fade out
+ */
+export function getSurvivalShade(probability: number): string {
+  return `rgba(63, 92, 114, ${(0.04 + probability * 0.26).toFixed(3)})`
+}
+
+/**
+ * Create the inline style for a survival-shaded box (read by the .survival-shaded CSS rule)
+ */
+export function createSurvivalStyle(survival: number | undefined): React.CSSProperties {
+  if (survival === undefined) return {}
+  return { '--survival-shade': getSurvivalShade(survival) } as React.CSSProperties
+}
@@ -0,0 +1,39 @@
+// Linked Week - Follow #week-YYYY-MM-DD permalinks (from the feed or a shared link)
+// The views pick the box for the linked date; these hooks read the hash and scroll to it
+
+import { useEffect, useRef, useState, RefObject } from 'react'
+import { parseWeekHash } from './week-permalink'
+
+/**
+ * Date linked by the location hash, updated when the hash changes
+ */
+export function useLinkedDate(): string | null {
+  const [linkedDate, setLinkedDate] = useState<string | null>(null)
+
+  useEffect(() => {
+    const readHash = () => setLinkedDate(parseWeekHash(window.location.hash))
+    readHash()
+    window.addEventListener('hashchange', readHash)
+    return () => window.removeEventListener('hashchange', readHash)
+  }, [])
+
+  return linkedDate
+}
+
+/**
+ * Scroll the element matching selector (inside the container) to the middle of the screen, once per selector
+ * renderKey must change when the view renders different elements, so a virtualized grid is retried
+ */
+export function useScrollToLinked(containerRef: RefObject<HTMLElement | null>, selector: string | null, renderKey: unknown) {
+  const scrolledTo = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!selector || scrolledTo.current === selector) return
+
+    const element = containerRef.current?.querySelector(selector)
+    if (element) {
+      element.scrollIntoView({ block: 'center' })
+      scrolledTo.current = selector
+    }
+  }, [containerRef, selector, renderKey])
+}
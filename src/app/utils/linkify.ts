@@ -0,0 +1,33 @@
+// Linkify - Split text into plain parts and URLs, so links in event descriptions are clickable
+// Shared by the tooltip and year list (as React links) and the feed (as HTML)
+
+import { escapeXml } from './escape-xml'
+
+export interface TextSegment {
+  text: string
+  href?: string                // Set when the segment is a URL
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g
+const WHOLE_URL_PATTERN = /^https?:\/\/[^\s]+$/
+
+/**
+ * Split text into plain segments and URL segments, in order
+ */
+export function splitLinks(text: string): TextSegment[] {
+  return text
+    .split(URL_PATTERN)
+    .filter(Boolean)
+    .map(part => (WHOLE_URL_PATTERN.test(part) ? { text: part, href: part } : { text: part }))
+}
+
+/**
+ * Text as HTML with clickable links and line breaks
+ */
+export function linkifyHtml(text: string): string {
+  return splitLinks(text)
+    .map(segment => segment.href
+      ? `<a href="${escapeXml(segment.href)}">${escapeXml(segment.text)}</a>`
+      : escapeXml(segment.text).replace(/\r?\n/g, '<br>'))
+    .join('')
+}
@@ -70,4 +70,11 @@ export function generateMilestoneColors(lifeEvents: EventsData): string[] {
   }
   
   return colors
-}
\ No newline at end of file
+}
+
+// Band colors for date-range events - more saturated than the milestone
+// backgrounds so a span stays visible on top of any life phase color
+export function getSpanColor(index: number): string {
+  const hue = (index * 137.5 + 20) % 360
+  return `hsl(${hue}, 65%, 50%)`
+}
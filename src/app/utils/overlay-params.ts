@@ -0,0 +1,51 @@
+// Overlay URL State for Life in Weeks
+// Keeps the overlay toggles in the query string so shared links match
+
+import { AppConfig } from '../config/app-config'
+import { OVERLAYS } from '../data/overlays'
+
+// Whether each registered overlay is shown, by overlay id
+export type OverlaySettings = Record<string, boolean>
+
+export type SearchParams = Record<string, string | string[] | undefined>
+
+/**
+ * Overlay settings from config, used when the URL does not say otherwise
+ * Overlays missing from config.defaultOverlays start hidden
+ */
+export function getDefaultOverlaySettings(config: AppConfig): OverlaySettings {
+  return Object.fromEntries(OVERLAYS.map(overlay => [overlay.id, config.defaultOverlays[overlay.id] ?? false]))
+}
+
+/**
+ * Read overlay settings from search params, one per overlay id ("1"/"true" on, "0"/"false" off)
+ */
+export function parseOverlayParams(searchParams: SearchParams, config: AppConfig): OverlaySettings {
+  const settings = getDefaultOverlaySettings(config)
+  
+  for (const { id } of OVERLAYS) {
+    const raw = searchParams[id]
+    const value = Array.isArray(raw) ? raw[0] : raw
+    if (value === '1' || value === 'true') settings[id] = true
+    if (value === '0' || value === 'false') settings[id] = false
+  }
+  
+  return settings
+}
+
+/**
+ * Write overlay settings into a URL, leaving out values that match the config defaults
+ */
+export function applyOverlayParams(url: URL, settings: OverlaySettings, config: AppConfig): URL {
+  const defaults = getDefaultOverlaySettings(config)
+  
+  for (const { id } of OVERLAYS) {
+    if (settings[id] === defaults[id]) {
+      url.searchParams.delete(id)
+    } else {
+      url.searchParams.set(id, settings[id] ? '1' : '0')
+    }
+  }
+  
+  return url
+}
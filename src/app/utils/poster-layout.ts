@@ -0,0 +1,101 @@
+// Poster Layout - Paper sizes and sizing for printed wall posters
+// The whole life is printed as the classic 52-column grid, sized in millimetres to fill one page
+
+import { EventsData } from '../data/life-events'
+import { GridBox } from './grid-layout'
+import { CLASSIC_COLUMNS } from './classic-layout'
+import { detectMilestoneEvents } from './milestone-colors'
+import { addDaysToDateString } from './date-processing'
+
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1' | 'Letter' | 'Tabloid'
+
+// Portrait dimensions in millimetres
+export const PAPER_SIZES: Record<PaperSize, { label: string, width: number, height: number }> = {
+  A4: { label: 'A4', width: 210, height: 297 },
+  A3: { label: 'A3', width: 297, height: 420 },
+  A2: { label: 'A2', width: 420, height: 594 },
+  A1: { label: 'A1', width: 594, height: 841 },
+  Letter: { label: 'Letter', width: 215.9, height: 279.4 },
+  Tabloid: { label: 'Tabloid', width: 279.4, height: 431.8 },
+}
+
+export const DEFAULT_PAPER_SIZE: PaperSize = 'A3'
+
+// Page margin and the share of the printable height given to the title block and legend
+const MARGIN_SHARE = 0.04
+const TITLE_SHARE = 0.09
+const LEGEND_SHARE = 0.11
+
+// The age label column is this many cells wide; one extra row holds the week axis
+const AGE_LABEL_CELLS = 2
+const AXIS_ROWS = 1
+
+export interface PosterLayout {
+  paperSize: PaperSize
+  width: number                 // Page size (mm)
+  height: number
+  margin: number                // Page margin (mm)
+  cellSize: number              // Grid cell pitch (mm)
+  titleSize: number             // Title font size (mm)
+  textSize: number              // Legend and subtitle font size (mm)
+}
+
+export interface LegendEntry {
+  color: string                 // Milestone background color from the timeline
+  headline: string
+  year: number                  // Only the year, so private milestones stay private
+}
+
+/**
+ * Paper size from a query parameter (?size=A2), case-insensitive, falling back to the default
+ */
+export function parsePaperSize(value: string | string[] | undefined): PaperSize {
+  const raw = (Array.isArray(value) ? value[0] : value)?.toLowerCase()
+  const match = (Object.keys(PAPER_SIZES) as PaperSize[]).find(size => size.toLowerCase() === raw)
+  return match ?? DEFAULT_PAPER_SIZE
+}
+
+/**
+ * Size the grid so every year of age fits on the page below the title and above the legend
+ * Text scales with the page width, so a poster reads the same from further away
+ */
+export function getPosterLayout(paperSize: PaperSize, rowCount: number): PosterLayout {
+  const { width, height } = PAPER_SIZES[paperSize]
+  const margin = Math.round(width * MARGIN_SHARE)
+  const printableWidth = width - 2 * margin
+  const printableHeight = height - 2 * margin
+  const gridHeight = printableHeight * (1 - TITLE_SHARE - LEGEND_SHARE)
+
+  const cellSize = Math.min(
+    printableWidth / (CLASSIC_COLUMNS + AGE_LABEL_CELLS),
+    gridHeight / (rowCount + AXIS_ROWS)
+  )
+
+  return {
+    paperSize,
+    width,
+    height,
+    margin,
+    cellSize: Math.floor(cellSize * 10) / 10,
+    titleSize: Math.round(printableHeight * TITLE_SHARE * 0.45 * 10) / 10,
+    textSize: Math.round(printableWidth * 0.012 * 10) / 10
+  }
+}
+
+/**
+ * One legend entry per milestone, with the color of the life phase it starts
+ * (read from the week holding the milestone, so custom colors are included)
+ */
+export function getMilestoneLegend(boxes: GridBox[], lifeEvents: EventsData): LegendEntry[] {
+  return detectMilestoneEvents(lifeEvents).map(({ date, event }) => {
+    // A milestone on a birthday starts its color there; otherwise the week containing it does
+    // (birthday boxes sit between weeks and cover no range of their own)
+    const box = boxes.find(candidate => candidate.type === 'birthday' && candidate.date === date) ??
+      boxes.find(candidate => candidate.type !== 'birthday' && candidate.date <= date && date < addDaysToDateString(candidate.date, 7))
+    return {
+      color: box?.color ?? '#ffffff',
+      headline: event.headline,
+      year: parseInt(date.split('-')[0])
+    }
+  })
+}
@@ -0,0 +1,43 @@
+// Row Breaking - Greedy line breaking over precomputed box widths
+// Free of DOM and React imports so the row breaking worker can run it
+
+// Message sent to the row breaking worker
+export interface RowBreakingRequest {
+  id: number                // Increasing request id; stale replies are ignored
+  widths: number[]          // Width of each box in px, including the gap after it
+  availableWidth: number    // Row width the boxes have to fit in
+  forcedBreaks: number[]    // Box indices that always start a new row (decade headings)
+}
+
+// Reply from the row breaking worker
+export interface RowBreakingResponse {
+  id: number
+  rowStarts: number[]       // Index of the first box of each row
+}
+
+/**
+ * Break boxes into rows, starting a new row when the next box would overflow
+ * (or at a forced break). Returns the index of the first box of each row
+ */
+export function breakRowsByWidth(widths: number[], availableWidth: number, forcedBreaks: number[] = []): number[] {
+  const rowStarts: number[] = []
+  const forced = new Set(forcedBreaks)
+  let currentRowWidth = 0
+  
+  for (let i = 0; i < widths.length; i++) {
+    if (i === 0 || forced.has(i) || (currentRowWidth + widths[i] > availableWidth && currentRowWidth > 0)) {
+      rowStarts.push(i)
+      currentRowWidth = 0
+    }
+    currentRowWidth += widths[i]
+  }
+  
+  return rowStarts
+}
+
+/**
+ * Split items into rows at the given row start indices
+ */
+export function splitIntoRows<T>(items: T[], rowStarts: number[]): T[][] {
+  return rowStarts.map((start, index) => items.slice(start, rowStarts[index + 1] ?? items.length))
+}
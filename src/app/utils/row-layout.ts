@@ -0,0 +1,90 @@
+// Row Layout - Rows for the grid, recomputed off the main thread while resizing
+// Width changes are debounced and broken into rows by the row breaking worker;
+// the previous rows stay on screen until the new ones arrive
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { APP_CONFIG } from '../config/app-config'
+import { GridBox, processBoxesIntoRows, calculateBoxWidths, getAvailableRowWidth } from './grid-layout'
+import { breakRowsByWidth, splitIntoRows, RowBreakingRequest, RowBreakingResponse } from './row-breaking'
+import { BoxMetrics } from './text-measurement'
+
+const NO_FORCED_BREAKS: number[] = []
+
+interface MeasuredRows {
+  boxes: GridBox[]          // Boxes the rows were computed from
+  forcedBreaks: number[]
+  rows: GridBox[][]
+}
+
+/**
+ * Break boxes into rows for the measured container width
+ * Until the first measured layout (and on the server) rows are estimated from the font size
+ * forcedBreaks (box indices that start a new row) must keep its identity between renders
+ */
+export function useRowLayout(
+  boxes: GridBox[],
+  compactMode: boolean,
+  containerWidth: number,
+  metrics: BoxMetrics | null,
+  forcedBreaks: number[] = NO_FORCED_BREAKS
+): GridBox[][] {
+  const [measured, setMeasured] = useState<MeasuredRows | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const requestIdRef = useRef(0)
+  const lastWidthRef = useRef(containerWidth)
+  
+  // Estimated rows, only needed until measured rows exist for these boxes
+  const needsEstimate = measured?.boxes !== boxes || measured.forcedBreaks !== forcedBreaks
+  const estimatedRows = useMemo(
+    () => (needsEstimate
+      ? splitIntoRows(boxes, [0, ...forcedBreaks]).flatMap(section => processBoxesIntoRows(section, compactMode))
+      : []),
+    [needsEstimate, boxes, compactMode, forcedBreaks]
+  )
+  
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return
+    
+    const worker = new Worker(new URL('../workers/row-breaking.worker.ts', import.meta.url))
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+  
+  useEffect(() => {
+    if (!metrics || containerWidth <= 0) return
+    
+    // Only resizes are debounced; new boxes or metrics are laid out right away
+    const delay = containerWidth !== lastWidthRef.current ? APP_CONFIG.debounceResizeMs : 0
+    lastWidthRef.current = containerWidth
+    
+    const timer = setTimeout(() => {
+      const id = ++requestIdRef.current
+      const widths = calculateBoxWidths(boxes, compactMode, metrics)
+      const availableWidth = getAvailableRowWidth(containerWidth, metrics)
+      
+      const applyRowStarts = (rowStarts: number[]) => {
+        if (id !== requestIdRef.current) return
+        setMeasured({ boxes, forcedBreaks, rows: splitIntoRows(boxes, rowStarts) })
+      }
+      
+      const worker = workerRef.current
+      if (!worker) {
+        applyRowStarts(breakRowsByWidth(widths, availableWidth, forcedBreaks))
+        return
+      }
+      
+      worker.onmessage = (event: MessageEvent<RowBreakingResponse>) => {
+        if (event.data.id === id) applyRowStarts(event.data.rowStarts)
+      }
+      const request: RowBreakingRequest = { id, widths, availableWidth, forcedBreaks }
+      worker.postMessage(request)
+    }, delay)
+    
+    return () => clearTimeout(timer)
+  }, [boxes, compactMode, containerWidth, metrics, forcedBreaks])
+  
+  return measured && !needsEstimate ? measured.rows : estimatedRows
+}
@@ -0,0 +1,223 @@
+// SVG Export - The whole timeline as a standalone vector image
+// Built from the same boxes as the grid and broken into rows the same way, with label widths
+// estimated from the font size, since there is no browser to measure text on the server
+
+import type { ProfileTimeline } from '../lib/profile-timeline'
+import { getOverlay } from '../data/overlays'
+import {
+  GridBox,
+  calculateBoxWidths,
+  calculateRowHeight,
+  processBoxesIntoRows
+} from './grid-layout'
+import { getTimeline } from './timeline'
+import { formatDateString } from './date-processing'
+import { getSurvivalShade } from './life-expectancy'
+import { OverlaySettings } from './overlay-params'
+import { getMilestoneLegend } from './poster-layout'
+import { ClassicRow, CLASSIC_COLUMNS } from './classic-layout'
+import { escapeXml } from './escape-xml'
+import { BoxMetrics } from './text-measurement'
+
+// How much of the timeline's dates and details the image may show:
+// - default: like the site (full dates only if the profile shows them, private dates month/year)
+// - month: every personal date as month and year
+// - hidden: no dates, descriptions or hover titles at all, only labels and colors
+export type SvgPrivacy = 'default' | 'month' | 'hidden'
+
+export const SVG_PRIVACY_LEVELS: SvgPrivacy[] = ['default', 'month', 'hidden']
+
+export interface SvgExportOptions {
+  compact: boolean             // Emoji-only labels (like compact mode)
+  privacy: SvgPrivacy
+  width: number                // Image width in px
+}
+
+const DEFAULT_WIDTH = 960
+const MIN_WIDTH = 480
+const MAX_WIDTH = 2400
+
+const PADDING = 24
+const TITLE_SIZE = 28
+const TEXT_SIZE = 13
+const HEADER_HEIGHT = PADDING + TITLE_SIZE + TEXT_SIZE + 16   // Title and subtitle above the grid
+const CELL_GAP = 1
+const FONT_FAMILY = "'Red Hat Display', system-ui, sans-serif"
+const SPAN_BAND_HEIGHT = 3
+const LEGEND_ROW_HEIGHT = 22
+const LEGEND_SWATCH_SIZE = 12
+const LEGEND_CHAR_WIDTH = 7.5      // Estimated width per character of legend text
+
+// Label fonts and cell padding of the image, for sizing labeled boxes
+const SVG_BOX_METRICS: Record<'normal' | 'compact', BoxMetrics> = {
+  normal: {
+    fonts: { birthday: `700 12px ${FONT_FAMILY}`, event: `12px ${FONT_FAMILY}` },
+    chrome: { birthday: 10, event: 10 },
+    gap: CELL_GAP,
+    rowHeight: calculateRowHeight(false)
+  },
+  compact: {
+    fonts: { birthday: `700 10px ${FONT_FAMILY}`, event: `10px ${FONT_FAMILY}` },
+    chrome: { birthday: 6, event: 6 },
+    gap: CELL_GAP,
+    rowHeight: calculateRowHeight(true)
+  }
+}
+
+const FUTURE_FILL = '#f0f0f0'
+const CELL_STROKE = '#ccc'
+const TEXT_COLOR = '#3f5c72'
+const BACKGROUND = '#f0f8ff'
+
+/**
+ * Read export options from the query string (?mode=compact&privacy=month&width=1200)
+ */
+export function parseSvgExportOptions(searchParams: URLSearchParams): SvgExportOptions {
+  const privacy = searchParams.get('privacy') as SvgPrivacy | null
+  const width = Number(searchParams.get('width'))
+
+  return {
+    compact: searchParams.get('mode') === 'compact',
+    privacy: privacy && SVG_PRIVACY_LEVELS.includes(privacy) ? privacy : 'default',
+    width: width > 0 ? Math.round(Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, width))) : DEFAULT_WIDTH
+  }
+}
+
+/**
+ * One box as a group: cell, date-range bands, life expectancy outline, label and hover title
+ */
+function renderBox(box: GridBox, x: number, y: number, width: number, height: number, today: string, privacy: SvgPrivacy): string {
+  const isFuture = box.date > today
+  const fill = isFuture
+    ? (box.survival !== undefined ? getSurvivalShade(box.survival) : FUTURE_FILL)
+    : box.color ?? FUTURE_FILL
+  const stroke = getOverlay(box.eventType)?.style?.borderColor ?? (box.type === 'birthday' ? TEXT_COLOR : CELL_STROKE)
+  const parts: string[] = []
+
+  if (privacy !== 'hidden' && box.tooltip) {
+    parts.push(`<title>${escapeXml(box.tooltip)}</title>`)
+  }
+  parts.push(`<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="2" fill="${fill}" stroke="${stroke}" />`)
+
+  box.spans?.forEach((span, index) => {
+    const bandY = y + height - SPAN_BAND_HEIGHT * (index + 1)
+    parts.push(`<rect x="${x}" y="${bandY}" width="${width}" height="${SPAN_BAND_HEIGHT}" fill="${span.color}" />`)
+  })
+
+  box.markers?.forEach(marker => {
+    const dash = marker.id === 'median' ? '' : ' stroke-dasharray="3 2"'
+    parts.push(`<rect x="${x + 1}" y="${y + 1}" width="${width - 2}" height="${height - 2}" fill="none" stroke="${TEXT_COLOR}" stroke-width="2"${dash} />`)
+  })
+
+  if (box.label) {
+    const weight = box.type === 'birthday' ? ' font-weight="700"' : ''
+    parts.push(`<text x="${x + width / 2}" y="${y + height / 2}" text-anchor="middle" dominant-baseline="central"${weight}>${escapeXml(box.label)}</text>`)
+  }
+
+  return `<g>${parts.join('')}</g>`
+}
+
+/**
+ * Milestone legend, wrapped into rows; returns the markup and its height
+ */
+function renderLegend(timeline: ProfileTimeline, boxes: GridBox[], top: number, width: number, privacy: SvgPrivacy): { markup: string, height: number } {
+  const entries = getMilestoneLegend(boxes, timeline.lifeEvents).map(entry => ({
+    color: entry.color,
+    text: privacy === 'hidden' ? entry.headline : `${entry.headline} ${entry.year}`
+  }))
+  if (timeline.lifeExpectancy) {
+    entries.push({ color: getSurvivalShade(0.5), text: `Future weeks, shaded by survival odds (${timeline.lifeExpectancy.tableLabel})` })
+  }
+
+  const items: string[] = []
+  let x = 0
+  let row = 0
+  for (const entry of entries) {
+    const itemWidth = LEGEND_SWATCH_SIZE + 6 + entry.text.length * LEGEND_CHAR_WIDTH + 16
+    if (x > 0 && x + itemWidth > width) {
+      x = 0
+      row++
+    }
+    const y = top + row * LEGEND_ROW_HEIGHT
+    items.push(
+      `<rect x="${PADDING + x}" y="${y}" width="${LEGEND_SWATCH_SIZE}" height="${LEGEND_SWATCH_SIZE}" fill="${entry.color}" stroke="${CELL_STROKE}" />` +
+      `<text x="${PADDING + x + LEGEND_SWATCH_SIZE + 6}" y="${y + LEGEND_SWATCH_SIZE / 2}" dominant-baseline="central">${escapeXml(entry.text)}</text>`
+    )
+    x += itemWidth
+  }
+
+  return {
+    markup: `<g class="legend">${items.join('')}</g>`,
+    height: entries.length > 0 ? (row + 1) * LEGEND_ROW_HEIGHT : 0
+  }
+}
+
+/**
+ * Render a profile's timeline as a standalone SVG document
+ */
+export function renderTimelineSvg(timeline: ProfileTimeline, overlays: OverlaySettings, options: SvgExportOptions): string {
+  const { lifeEvents, weeksConfig, derivedConfig, lifeExpectancy } = timeline
+  const { compact, privacy, width } = options
+  const today = formatDateString(new Date())
+
+  const { boxes } = getTimeline(lifeEvents, weeksConfig, {
+    overlays,
+    isCompactMode: compact,
+    // Full personal dates only when both the profile and the requested privacy level allow them
+    showPersonalEventDates: privacy === 'default' && derivedConfig.config.showPersonalEventDates,
+    lifeExpectancy
+  })
+
+  const gridWidth = width - 2 * PADDING
+  const metrics = SVG_BOX_METRICS[compact ? 'compact' : 'normal']
+  const rowHeight = metrics.rowHeight
+  const cellHeight = rowHeight - (compact ? CELL_GAP : 2)
+  const rows = processBoxesIntoRows(boxes, compact, gridWidth, metrics)
+
+  const cells: string[] = []
+  rows.forEach((row, rowIndex) => {
+    let x = PADDING
+    const y = HEADER_HEIGHT + rowIndex * rowHeight
+    calculateBoxWidths(row, compact, metrics).forEach((boxWidth, index) => {
+      cells.push(renderBox(row[index], x, y, boxWidth - CELL_GAP, cellHeight, today, privacy))
+      x += boxWidth
+    })
+  })
+
+  const gridBottom = HEADER_HEIGHT + rows.length * rowHeight
+  const legend = renderLegend(timeline, boxes, gridBottom + PADDING, gridWidth, privacy)
+  const height = Math.ceil(gridBottom + PADDING + legend.height + PADDING)
+  const subtitle = `${derivedConfig.birthYear}–${derivedConfig.endYear} · each box is a week`
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}" font-size="${compact ? 10 : 12}" fill="${TEXT_COLOR}">`,
+    `<title>${escapeXml(derivedConfig.title)}</title>`,
+    `<rect width="100%" height="100%" fill="${BACKGROUND}" />`,
+    `<text x="${PADDING}" y="${Math.round(PADDING + TITLE_SIZE * 0.8)}" font-size="${TITLE_SIZE}" font-weight="800">${escapeXml(derivedConfig.title)}</text>`,
+    `<text x="${PADDING}" y="${PADDING + TITLE_SIZE + TEXT_SIZE + 2}" font-size="${TEXT_SIZE}">${escapeXml(subtitle)}</text>`,
+    `<g class="grid">${cells.join('')}</g>`,
+    `<g font-size="${TEXT_SIZE}">${legend.markup}</g>`,
+    `</svg>`
+  ].join('\n')
+}
+
+/**
+ * Classic 52-column grid as a bare SVG of colored cells (no text), for thumbnails
+ */
+export function renderClassicGridSvg(rows: ClassicRow[], cellSize: number, today: string): { svg: string, width: number, height: number } {
+  const pitch = cellSize + CELL_GAP
+  const cells = rows.flatMap((row, rowIndex) => row.cells.map((box, column) => {
+    if (!box) return ''
+    const fill = box.date > today ? FUTURE_FILL : box.color ?? FUTURE_FILL
+    return `<rect x="${column * pitch}" y="${rowIndex * pitch}" width="${cellSize}" height="${cellSize}" fill="${fill}" />`
+  }))
+
+  const width = CLASSIC_COLUMNS * pitch - CELL_GAP
+  const height = rows.length * pitch - CELL_GAP
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${cells.join('')}</svg>`,
+    width,
+    height
+  }
+}
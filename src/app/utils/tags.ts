@@ -0,0 +1,35 @@
+// Tag Utilities for Life in Weeks
+// Collects free-form tags from life events for the filter bar
+
+import { EventsData } from '../data/life-events'
+
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+/**
+ * Get the unique tags used by a list of events
+ */
+export function getEventTags(events: Array<{ tags?: string[] }>): string[] {
+  const tags = new Set<string>()
+  events.forEach(event => event.tags?.forEach(tag => tags.add(tag)))
+  return Array.from(tags)
+}
+
+/**
+ * Count events per tag, most used first (ties sorted alphabetically)
+ */
+export function getTagCounts(lifeEvents: EventsData): TagCount[] {
+  const counts = new Map<string, number>()
+  
+  Object.values(lifeEvents).forEach(events => {
+    events.forEach(event => {
+      getEventTags([event]).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+    })
+  })
+  
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,126 @@
+// Text Measurement - Real label widths for row breaking
+// Labels are measured with canvas measureText in the font the cells actually render in,
+// so emoji, CJK text and proportional fonts break rows where the browser would.
+// Where there is no canvas (server rendering, SVG export) widths are estimated from the font size
+
+export type LabeledBoxType = 'birthday' | 'event'
+
+// Box model of labeled cells and rows, read from the rendered CSS
+export interface BoxMetrics {
+  fonts: Record<LabeledBoxType, string>     // CSS font shorthand of the label
+  chrome: Record<LabeledBoxType, number>    // Left + right padding and border in px
+  gap: number                               // Gap between cells in a row
+  rowHeight: number                         // Cell height plus the margin below each row
+}
+
+// Estimated advance widths in em, rounded up so estimated rows end early rather than overflow
+const EMOJI_ADVANCE = 1.25
+const WIDE_ADVANCE = 1              // CJK and fullwidth forms
+const NARROW_ADVANCE = 0.6          // Latin text and everything else
+const DEFAULT_FONT_SIZE = 16
+
+// Measured widths per font, then per label (labels repeat across renders and resizes)
+const widthCache = new Map<string, Map<string, number>>()
+let measureContext: CanvasRenderingContext2D | null | undefined
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (measureContext === undefined) {
+    measureContext = typeof document === 'undefined'
+      ? null
+      : document.createElement('canvas').getContext('2d')
+  }
+  return measureContext
+}
+
+/**
+ * Width of a label in px, or null where there is no canvas (server rendering)
+ */
+export function measureTextWidth(text: string, font: string): number | null {
+  const context = getMeasureContext()
+  if (!context) return null
+
+  let fontCache = widthCache.get(font)
+  if (!fontCache) {
+    fontCache = new Map()
+    widthCache.set(font, fontCache)
+  }
+
+  let width = fontCache.get(text)
+  if (width === undefined) {
+    context.font = font
+    width = context.measureText(text).width
+    fontCache.set(text, width)
+  }
+  return width
+}
+
+function getEstimatedAdvance(codePoint: number): number {
+  // Joiners and variation selectors only combine the emoji around them
+  if (codePoint === 0x200D || (codePoint >= 0xFE00 && codePoint <= 0xFE0F)) return 0
+  if (codePoint >= 0x1F000 || (codePoint >= 0x2600 && codePoint <= 0x27BF)) return EMOJI_ADVANCE
+  if (
+    (codePoint >= 0x1100 && codePoint <= 0x115F) ||
+    (codePoint >= 0x2E80 && codePoint <= 0xA4CF) ||
+    (codePoint >= 0xAC00 && codePoint <= 0xD7A3) ||
+    (codePoint >= 0xF900 && codePoint <= 0xFAFF) ||
+    (codePoint >= 0xFF00 && codePoint <= 0xFF60)
+  ) {
+    return WIDE_ADVANCE
+  }
+  return NARROW_ADVANCE
+}
+
+/**
+ * Estimated width of a label in px from the font size alone, for where nothing can be measured
+ * The same on server and client, so estimated rows hydrate without a mismatch
+ */
+export function estimateTextWidth(text: string, font: string): number {
+  const fontSize = parseFloat(font.match(/([\d.]+)px/)?.[1] ?? '') || DEFAULT_FONT_SIZE
+  let ems = 0
+  for (const char of text) {
+    ems += getEstimatedAdvance(char.codePointAt(0) ?? 0)
+  }
+  return ems * fontSize
+}
+
+/**
+ * Read the fonts, box model of labeled cells and row height from hidden probe cells
+ * Probes are rendered inside the grid so every breakpoint and compact rule applies
+ */
+export function readBoxMetrics(container: HTMLElement, compactMode: boolean): BoxMetrics {
+  const row = document.createElement('div')
+  row.className = 'row-wrapper'
+  row.style.cssText = 'position: absolute; visibility: hidden; pointer-events: none;'
+
+  const types: LabeledBoxType[] = ['birthday', 'event']
+  const probes = types.map(type => {
+    const probe = document.createElement('button')
+    probe.className = `btn ${type} ${compactMode ? 'compact-cell' : ''}`
+    row.appendChild(probe)
+    return probe
+  })
+  container.appendChild(row)
+
+  const fonts = {} as Record<LabeledBoxType, string>
+  const chrome = {} as Record<LabeledBoxType, number>
+  probes.forEach((probe, index) => {
+    const style = getComputedStyle(probe)
+    // Built from longhands: the font shorthand is empty in some browsers
+    fonts[types[index]] = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`
+    chrome[types[index]] = [style.paddingLeft, style.paddingRight, style.borderLeftWidth, style.borderRightWidth]
+      .reduce((total, value) => total + (parseFloat(value) || 0), 0)
+  })
+  const rowStyle = getComputedStyle(row)
+  const gap = parseFloat(rowStyle.columnGap) || 0
+  const rowHeight = (parseFloat(getComputedStyle(probes[0]).height) || 0) + (parseFloat(rowStyle.marginBottom) || 0)
+
+  container.removeChild(row)
+  return { fonts, chrome, gap, rowHeight }
+}
+
+/**
+ * Forget measured widths (they depend on which fonts had loaded)
+ */
+export function clearTextMeasurementCache(): void {
+  widthCache.clear()
+}
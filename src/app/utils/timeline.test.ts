@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { EventsData, createWeeksConfig } from '../data/life-events'
+import { buildPeriodTimeline, buildTimeline } from './timeline'
+
+// Born on a Wednesday; the week containing the birth date starts on Sunday 2000-03-12
+const weeksConfig = createWeeksConfig('2000-03-15', { endYear: 2002 })
+
+const lifeEvents: EventsData = {
+  '2000-03-15': [{ headline: '🐣 Born', milestone: true }],
+  '2000-09-06': [{ headline: '🦷 First tooth', milestone: true }],
+  // Several events on one day: the milestone is listed second
+  '2001-06-13': [
+    { headline: '🎒 Playgroup', description: 'First day - https://example.com' },
+    { headline: '🏠 Moved', milestone: true }
+  ]
+}
+
+describe('buildTimeline', () => {
+  const { boxes, milestoneColors } = buildTimeline(lifeEvents, weeksConfig)
+
+  describe('birth year', () => {
+    it('starts at the week containing the birth date', () => {
+      expect(boxes[0].date).toBe('2000-03-12')
+      expect(boxes[0].type).toBe('event')
+      expect(boxes[0].label).toBe('🐣 Born')
+      // The week starts before the birth date, but belongs to the first year of age
+      expect(boxes[0].age).toBe(0)
+    })
+
+    it('has no birthday box', () => {
+      expect(boxes.filter(box => box.type === 'birthday' && box.year === 2000)).toEqual([])
+    })
+
+    it('runs until the first birthday', () => {
+      const birthYear = boxes.filter(box => box.year === 2000)
+      expect(birthYear.every(box => box.date < '2001-03-15')).toBe(true)
+      expect(birthYear[birthYear.length - 1].date).toBe('2001-03-11')
+    })
+  })
+
+  describe('later years', () => {
+    it('start with a birthday box on the birthday', () => {
+      const firstOfYear = boxes.find(box => box.year === 2001)
+      expect(firstOfYear).toMatchObject({ type: 'birthday', date: '2001-03-15', age: 1 })
+      expect(firstOfYear?.label).toContain('1')
+    })
+
+    it('skip week 0, whose week already ends the previous year', () => {
+      const birthdayIndex = boxes.findIndex(box => box.type === 'birthday' && box.year === 2001)
+      expect(boxes[birthdayIndex - 1]).toMatchObject({ type: 'week', date: '2001-03-11', year: 2000 })
+      expect(boxes[birthdayIndex + 1]).toMatchObject({ type: 'week', date: '2001-03-18', year: 2001 })
+    })
+
+    it('never repeat a week', () => {
+      const weekDates = boxes.filter(box => box.type !== 'birthday').map(box => box.date)
+      expect(new Set(weekDates).size).toBe(weekDates.length)
+    })
+
+    it('keep every box in chronological order', () => {
+      const dates = boxes.map(box => box.date)
+      expect(dates).toEqual([...dates].sort())
+    })
+  })
+
+  describe('days with several events', () => {
+    const box = boxes.find(box => box.date === '2001-06-10')
+
+    it('share one box, labeled with the milestone event', () => {
+      expect(box).toMatchObject({ type: 'event', label: '🏠 Moved' })
+      expect(boxes.filter(other => other.date === '2001-06-10')).toHaveLength(1)
+    })
+
+    it('list every event, in file order', () => {
+      expect(box?.events?.map(event => event.headline)).toEqual(['🎒 Playgroup', '🏠 Moved'])
+      expect(box?.tooltip).toContain('🎒 Playgroup - First day - https://example.com')
+      expect(box?.tooltip).toContain('🏠 Moved')
+    })
+
+    it('hide the day of personal events by default', () => {
+      expect(box?.events?.[0].dateLabel).toBe('Jun 2001')
+    })
+
+    it('show the day when personal dates are shown', () => {
+      const { boxes: withDates } = buildTimeline(lifeEvents, weeksConfig, { showPersonalEventDates: true })
+      expect(withDates.find(other => other.date === '2001-06-10')?.events?.[0].dateLabel).toBe('Jun 13, 2001')
+    })
+  })
+
+  describe('milestone colors', () => {
+    it('attach a color to every box', () => {
+      expect(boxes.every(box => box.color && milestoneColors.includes(box.color))).toBe(true)
+    })
+
+    it('advance at the week of each milestone', () => {
+      const colorOn = (date: string) => boxes.find(box => box.date === date)?.color
+      expect(colorOn('2000-08-27')).toBe(milestoneColors[1])
+      expect(colorOn('2000-09-03')).toBe(milestoneColors[2])
+      expect(colorOn('2001-06-03')).toBe(milestoneColors[2])
+    })
+  })
+
+  it('shows emoji-only labels in compact mode and drops events without one', () => {
+    const { boxes: compact } = buildTimeline({
+      ...lifeEvents,
+      '2002-01-09': [{ headline: 'No emoji here' }]
+    }, weeksConfig, { isCompactMode: true })
+
+    expect(compact.find(box => box.date === '2001-06-10')?.label).toBe('🏠')
+    expect(compact.find(box => box.date === '2002-01-06')).toMatchObject({ type: 'week', label: '' })
+  })
+})
+
+describe('buildPeriodTimeline days', () => {
+  const { boxes } = buildPeriodTimeline(lifeEvents, weeksConfig, 'days', { dayViewAge: 1 })
+
+  it('starts the year on the first of the birthday month, not the birthday', () => {
+    expect(boxes[0]).toMatchObject({ date: '2001-03-01', tooltip: 'Mar 1, 2001', age: 1 })
+    expect(boxes[boxes.length - 1].date).toBe('2002-02-28')
+    expect(boxes.every(box => box.age === 1)).toBe(true)
+  })
+})
@@ -0,0 +1,652 @@
+// Timeline Engine - Headless construction of the birthday, event and week boxes
+// Pure functions with no React or DOM access, shared by every view (grid, comparison, exports)
+
+import { EventsData, WeeksConfig } from '../data/life-events'
+import { OVERLAYS, PERSONAL_EVENT_TYPE, getOverlay } from '../data/overlays'
+import { addDaysToDateString, formatDateString, formatDuration, formatTooltipDate, getWeekStartSunday } from './date-processing'
+import { 
+  GridBox, 
+  BoxEvent,
+  createTooltip, 
+  createSpanTooltipLine,
+  createBirthdayLabel, 
+  createBirthdayTooltip,
+  createCompactEventLabel,
+  shouldShowInCompact
+} from './grid-layout'
+// Auto-generated milestone colors
+import { generateMilestoneColors, getSpanColor } from './milestone-colors'
+import { getEventTags } from './tags'
+import { OverlaySettings } from './overlay-params'
+import { LifeExpectancyProjection, getSurvivalProbability } from './life-expectancy'
+import { Granularity, Period, getPeriods, formatPeriodLabel } from './granularity'
+
+// Extended event interface for merged events
+export interface MergedEvent {
+  headline: string
+  description?: string
+  eventType: string            // 'personal' or the id of the overlay it came from
+  endDate?: string
+  milestone?: boolean
+  private?: boolean
+  tags?: string[]
+  color?: string
+}
+
+// Merge all event sources based on the current overlay toggles
+export function getMergedEvents(lifeEvents: EventsData, overlays: OverlaySettings) {
+  const merged: Record<string, MergedEvent[]> = {}
+  
+  // Add personal events
+  Object.entries(lifeEvents).forEach(([date, events]) => {
+    merged[date] = events.map(event => ({
+      ...event,
+      eventType: PERSONAL_EVENT_TYPE
+    }))
+  })
+  
+  // Add every registered overlay that is toggled on
+  OVERLAYS.filter(overlay => overlays[overlay.id]).forEach(overlay => {
+    Object.entries(overlay.events).forEach(([date, events]) => {
+      if (!merged[date]) merged[date] = []
+      merged[date].push(...events.map(event => ({
+        headline: event.headline,
+        description: event.description,
+        eventType: overlay.id
+      })))
+    })
+  })
+  
+  return merged
+}
+
+// An event as listed under its box; personal dates show the day only when allowed and not private
+function createBoxEvent(event: MergedEvent, date: string, showPersonalEventDates: boolean): BoxEvent {
+  const showFullDate = event.eventType !== PERSONAL_EVENT_TYPE || (showPersonalEventDates && !event.private)
+  return {
+    headline: event.headline,
+    description: event.description,
+    eventType: event.eventType,
+    dateLabel: formatTooltipDate(date, showFullDate),
+    duration: event.endDate && event.endDate > date ? formatDuration(date, event.endDate) : undefined,
+    private: event.private
+  }
+}
+
+// Date-range event with its resolved start and end (inclusive)
+interface RangeEvent {
+  start: string
+  end: string
+  event: MergedEvent
+  color: string
+}
+
+// Collect personal events that span multiple days, in chronological order
+function getRangeEvents(mergedEvents: Record<string, MergedEvent[]>): RangeEvent[] {
+  const ranges: RangeEvent[] = []
+  
+  Object.entries(mergedEvents)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([date, events]) => {
+      events.forEach(event => {
+        if (event.eventType === PERSONAL_EVENT_TYPE && event.endDate && event.endDate > date) {
+          ranges.push({
+            start: date,
+            end: event.endDate,
+            event,
+            color: event.color || getSpanColor(ranges.length)
+          })
+        }
+      })
+    })
+  
+  return ranges
+}
+
+/**
+ * Give every box overlapped by a date-range event a band, and list ongoing ranges in its tooltip
+ * createEmptyTooltip builds the tooltip of a box without events of its own
+ */
+function attachRangeSpans(
+  boxes: GridBox[],
+  rangeEvents: RangeEvent[],
+  getBoxEnd: (box: GridBox) => string,
+  createEmptyTooltip: (box: GridBox, lines: string) => string
+) {
+  if (rangeEvents.length === 0) return
+  
+  for (const box of boxes) {
+    const boxEnd = getBoxEnd(box)
+    const covering = rangeEvents.filter(range => range.start <= boxEnd && range.end >= box.date)
+    if (covering.length === 0) continue
+    
+    box.spans = covering.map(range => ({
+      headline: range.event.headline,
+      color: range.color,
+      duration: formatDuration(range.start, range.end),
+      isStart: range.start >= box.date && range.start <= boxEnd
+    }))
+    box.tags = getEventTags([{ tags: box.tags }, ...covering.map(range => range.event)])
+    
+    // Ongoing ranges are listed in the tooltip (the start box already has them)
+    const ongoingLines = box.spans.filter(span => !span.isStart || box.type !== 'event').map(createSpanTooltipLine)
+    if (ongoingLines.length > 0) {
+      box.tooltip = box.type === 'week'
+        ? createEmptyTooltip(box, ongoingLines.join('\n'))
+        : `${box.tooltip}\n${ongoingLines.join('\n')}`
+    }
+  }
+}
+
+/**
+ * Shade future boxes by survival probability and attach the percentile markers they contain
+ */
+function attachLifeExpectancy(
+  boxes: GridBox[],
+  lifeExpectancy: LifeExpectancyProjection | null,
+  getBoxEnd: (box: GridBox) => string,
+  createEmptyTooltip: (box: GridBox, lines: string) => string
+) {
+  if (!lifeExpectancy) return
+  
+  for (const box of boxes) {
+    if (box.date <= lifeExpectancy.asOf) continue
+    box.survival = getSurvivalProbability(lifeExpectancy, box.date)
+    
+    if (box.type === 'birthday') continue
+    const boxEnd = getBoxEnd(box)
+    const markers = lifeExpectancy.markers.filter(marker => marker.date >= box.date && marker.date <= boxEnd)
+    if (markers.length === 0) continue
+    
+    box.markers = markers
+    const markerLines = markers.map(marker => marker.label).join('\n')
+    box.tooltip = box.type === 'week' && !box.spans?.length
+      ? createEmptyTooltip(box, markerLines)
+      : `${box.tooltip}\n${markerLines}`
+  }
+}
+
+export interface TimelineOptions {
+  overlays?: OverlaySettings        // Which overlay datasets to merge in (default: none)
+  isCompactMode?: boolean           // Emoji-only event labels (default: false)
+  showPersonalEventDates?: boolean  // Full dates in personal event tooltips (default: false, month/year only)
+  lifeExpectancy?: LifeExpectancyProjection | null  // Survival shading and percentile markers
+  granularity?: Granularity         // Time each box stands for (default: weeks)
+  dayViewAge?: number               // Year of age shown at day granularity (default: 0)
+}
+
+export interface Timeline {
+  boxes: GridBox[]                  // Birthday, event and week boxes in chronological order, colors attached
+  milestoneColors: string[]         // Colors in milestone order (first = before any milestone)
+  milestoneWeeks: Set<string>       // Week start dates that contain a personal milestone
+}
+
+// Built timelines per events object, keyed by the options that change the boxes
+const timelineCache = new WeakMap<EventsData, Map<string, Timeline>>()
+
+function getTimelineCacheKey(weeksConfig: WeeksConfig, options: TimelineOptions): string {
+  const { overlays = {}, isCompactMode = false, showPersonalEventDates = false, lifeExpectancy = null, granularity = 'weeks', dayViewAge = 0 } = options
+  return JSON.stringify([
+    weeksConfig,
+    overlays,
+    isCompactMode,
+    showPersonalEventDates,
+    lifeExpectancy && [lifeExpectancy.tableLabel, lifeExpectancy.birthDate, lifeExpectancy.asOf],
+    granularity,
+    granularity === 'days' ? dayViewAge : null
+  ])
+}
+
+/**
+ * buildTimeline, reusing the boxes built earlier for the same events and options
+ * (switching views or resizing never rebuilds them). Boxes are shared: don't mutate them
+ */
+export function getTimeline(lifeEvents: EventsData, weeksConfig: WeeksConfig, options: TimelineOptions = {}): Timeline {
+  let cached = timelineCache.get(lifeEvents)
+  if (!cached) {
+    cached = new Map()
+    timelineCache.set(lifeEvents, cached)
+  }
+  
+  const key = getTimelineCacheKey(weeksConfig, options)
+  let timeline = cached.get(key)
+  if (!timeline) {
+    timeline = buildTimeline(lifeEvents, weeksConfig, options)
+    cached.set(key, timeline)
+  }
+  return timeline
+}
+
+/**
+ * Build every box of a life, from the birth week to the end year, with milestone colors
+ *
+ * - Birth year: starts at the week containing the birth date
+ * - Later years: start with a birthday box, then skip week 0 (the week holding the
+ *   birthday already ends the previous year)
+ * - Days with several events: one box, labeled with the milestone (or first) event,
+ *   all events listed in the tooltip
+ * - Other granularities (days, months, years) are built by buildPeriodTimeline
+ */
+export function buildTimeline(lifeEvents: EventsData, weeksConfig: WeeksConfig, options: TimelineOptions = {}): Timeline {
+  if (options.granularity && options.granularity !== 'weeks') {
+    return buildPeriodTimeline(lifeEvents, weeksConfig, options.granularity, options)
+  }
+  
+  const {
+    overlays = {},
+    isCompactMode = false,
+    showPersonalEventDates = false,
+    lifeExpectancy = null
+  } = options
+  const startDate = new Date(weeksConfig.startDate)
+  
+  // Generate milestone colors from the life events
+  const milestoneColors = generateMilestoneColors(lifeEvents)
+  
+  // Get merged events from all sources
+  const mergedEvents = getMergedEvents(lifeEvents, overlays)
+  
+  // Initialize milestone tracking
+  const milestoneWeeks = new Set<string>()  // Track weeks with milestone events
+  
+  // Auto-coloring will be handled in the color map section
+  
+  // Generate all boxes chronologically
+  const allBoxes: GridBox[] = []
+  
+  // Process each year from start to end
+  for (let year = weeksConfig.startYear; year <= weeksConfig.endYear; year++) {
+    const age = year - weeksConfig.startYear
+    
+    // Add birthday box if not the birth year
+    if (age > 0) {
+      const birthdayDate = new Date(year, startDate.getMonth(), startDate.getDate())
+      const birthdayDateStr = formatDateString(birthdayDate)
+      
+      const birthdayBox: GridBox = {
+        type: 'birthday',
+        label: createBirthdayLabel(age, year, isCompactMode),
+        date: birthdayDateStr,
+        tooltip: createBirthdayTooltip(birthdayDateStr, age, showPersonalEventDates),
+        borderClass: 'btn',
+        backgroundClass: 'custom-color', // We'll apply inline styles
+        age,
+        year
+      }
+      
+      allBoxes.push(birthdayBox)
+    }
+    
+    // For age 0, start from week 0. For age > 0, start from week 1 to avoid
+    // duplicating the week that contains the birthday (already in previous year)
+    const startWeek = age === 0 ? 0 : 1
+    
+    // Process all weeks in the year
+    for (let week = startWeek; week <= 52; week++) {
+      let weekDate: Date
+      
+      if (age === 0) {
+        // For birth year, start from the week containing the birth date
+        if (week === 0) {
+          // Week 0 is the week containing the birth date
+          weekDate = getWeekStartSunday(startDate)
+        } else {
+          // Subsequent weeks are 7 days apart from week 0
+          const baseWeek = getWeekStartSunday(startDate)
+          weekDate = new Date(baseWeek)
+          weekDate.setDate(weekDate.getDate() + (week * 7))
+        }
+      } else {
+        // For other years, start from anniversary date
+        const anniversaryDate = new Date(year, startDate.getMonth(), startDate.getDate())
+        anniversaryDate.setDate(anniversaryDate.getDate() + (week * 7))
+        weekDate = getWeekStartSunday(anniversaryDate)
+      }
+      
+      // Skip if this week is beyond the next birthday
+      const nextBirthday = new Date(year + 1, startDate.getMonth(), startDate.getDate())
+      if (weekDate >= nextBirthday) continue
+      
+      const weekDateStr = formatDateString(weekDate)
+      
+      // Date formatting now working correctly
+      
+      // Check if this week has any events on the week start date
+      let eventsForWeek = mergedEvents[weekDateStr]
+      let actualEventDate = weekDateStr // Default to week start
+      
+      // Also check each day within this week for events (like Gina's implementation)
+      for (let day = 0; day < 7; day++) {
+        const dayDate = new Date(weekDate)
+        dayDate.setDate(dayDate.getDate() + day)
+        
+        // Don't check dates beyond next birthday
+        const nextBirthday = new Date(year + 1, startDate.getMonth(), startDate.getDate())
+        if (dayDate >= nextBirthday) break
+        
+        const dayDateStr = formatDateString(dayDate)
+        const eventsForDay = mergedEvents[dayDateStr]
+        
+        if (eventsForDay && eventsForDay.length > 0) {
+          // Add milestone weeks based on week start dates
+          const milestoneEvents = eventsForDay.filter(e => e.eventType === PERSONAL_EVENT_TYPE && e.milestone)
+          if (milestoneEvents.length > 0) {
+            // Add the week start date to milestone weeks since that's what the box.date will be
+            milestoneWeeks.add(weekDateStr)
+          }
+          // Use the day's events instead of week events
+          eventsForWeek = eventsForDay
+          actualEventDate = dayDateStr // Store the actual event date
+          break // Use first day with events in this week
+        }
+      }
+      
+      if (eventsForWeek && eventsForWeek.length > 0) {
+        // Pick the most important event (milestone first, then first event)
+        const primaryEvent = eventsForWeek.find(e => e.eventType === PERSONAL_EVENT_TYPE && e.milestone) || eventsForWeek[0]
+        const weekTags = getEventTags(eventsForWeek.filter(e => e.eventType === PERSONAL_EVENT_TYPE))
+        
+        // In compact mode, check if we should show this event
+        if (isCompactMode && !shouldShowInCompact(primaryEvent.headline)) {
+          // Skip this event in compact mode, treat as empty week
+          const weekBox: GridBox = {
+            type: 'week',
+            label: '',
+            date: weekDateStr,
+            tooltip: createTooltip(weekDateStr, undefined),
+            borderClass: 'btn',
+            backgroundClass: 'custom-color',
+            age,
+            year,
+            tags: weekTags
+          }
+          allBoxes.push(weekBox)
+        } else {
+          // Create tooltip that includes all events in this week
+          const allEventDescriptions = eventsForWeek.map(e => {
+            const prefix = getOverlay(e.eventType)?.tooltipPrefix ?? ''
+            const duration = e.endDate && e.endDate > actualEventDate ? ` (${formatDuration(actualEventDate, e.endDate)})` : ''
+            return prefix + e.headline + duration + (e.description ? ` - ${e.description}` : '')
+          }).join('\n')
+          
+          const eventLabel = isCompactMode ? createCompactEventLabel(primaryEvent.headline) : primaryEvent.headline
+          
+          const eventBox: GridBox = {
+            type: 'event',
+            label: eventLabel,
+            date: weekDateStr,
+            tooltip: createTooltip(
+              weekDateStr, 
+              allEventDescriptions, 
+              actualEventDate, 
+              primaryEvent.eventType, 
+              // Private dates (from {{placeholders}}) never show the exact day
+              showPersonalEventDates && !eventsForWeek.some(e => e.private)
+            ),
+            borderClass: 'btn',
+            backgroundClass: 'custom-color', // We'll apply inline styles
+            age,
+            year,
+            eventType: primaryEvent.eventType, // Use primary event type for styling
+            tags: weekTags,
+            events: eventsForWeek.map(e => createBoxEvent(e, actualEventDate, showPersonalEventDates))
+          }
+          
+          allBoxes.push(eventBox)
+        }
+      } else {
+        // Empty week box
+        const weekBox: GridBox = {
+          type: 'week',
+          label: '',
+          date: weekDateStr,
+          tooltip: createTooltip(weekDateStr, undefined),
+          borderClass: 'btn',
+          backgroundClass: 'custom-color', // We'll apply inline styles
+          age,
+          year
+        }
+        
+        allBoxes.push(weekBox)
+      }
+    }
+  }
+  
+  // All events are now properly processed
+  
+  // Date-range events: mark every box whose week overlaps the range so it
+  // gets a continuous band, independent of the milestone background colors
+  const getWeekBoxEnd = (box: GridBox) => box.type === 'birthday' ? box.date : addDaysToDateString(box.date, 6)
+  const createWeekTooltip = (box: GridBox, lines: string) => createTooltip(box.date, lines)
+  attachRangeSpans(allBoxes, getRangeEvents(mergedEvents), getWeekBoxEnd, createWeekTooltip)
+
+  // Life expectancy: shade future weeks by survival probability and attach the
+  // percentile markers to the weeks they fall in (kept apart from milestones,
+  // so they never change the milestone color sequence)
+  attachLifeExpectancy(allBoxes, lifeExpectancy, getWeekBoxEnd, createWeekTooltip)
+
+  // Create a map to store the color for each box based on milestone progression
+  const boxColorMap = new Map<string, string>()
+  let colorIndex = 0
+  let currentBoxColor = milestoneColors[0]
+  
+  // First pass: identify all milestone events and their weeks
+  const milestoneEventDates = new Set<string>()
+  Object.entries(mergedEvents).forEach(([date, events]) => {
+    events.forEach(event => {
+      if (event.eventType === PERSONAL_EVENT_TYPE && event.milestone) {
+        milestoneEventDates.add(date)
+        milestoneWeeks.add(date)
+      }
+    })
+  })
+  
+  // Also add milestone weeks based on which week boxes actually contain milestone events
+  for (const box of allBoxes) {
+    if (box.type === 'event') {
+      const eventsForBox = mergedEvents[box.date]
+      if (eventsForBox?.some(event => event.eventType === PERSONAL_EVENT_TYPE && event.milestone)) {
+        milestoneWeeks.add(box.date)
+      }
+    }
+  }
+  
+  // Second pass: assign colors based on chronological progression
+  // Sort all boxes by date to ensure chronological processing
+  const sortedBoxes = [...allBoxes].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  
+  for (const box of sortedBoxes) {
+    // Check if this box's week contains a milestone event
+    if (milestoneWeeks.has(box.date)) {
+      colorIndex++
+      if (colorIndex < milestoneColors.length) {
+        currentBoxColor = milestoneColors[colorIndex]
+      }
+    }
+    
+    // Also check for custom color overrides from events
+    const eventsForBox = mergedEvents[box.date]
+    if (eventsForBox) {
+      for (const event of eventsForBox) {
+        if (event.eventType === PERSONAL_EVENT_TYPE && event.milestone && event.color) {
+          currentBoxColor = event.color
+        }
+      }
+    }
+    
+    boxColorMap.set(box.date, currentBoxColor)
+  }
+  
+  // Attach the milestone color to every box
+  for (const box of allBoxes) {
+    box.color = boxColorMap.get(box.date) || milestoneColors[0]
+  }
+
+  return { boxes: allBoxes, milestoneColors, milestoneWeeks }
+}
+
+// Condensed labels of the years view show at most this many event emoji
+const MAX_YEAR_LABEL_EMOJI = 3
+
+/**
+ * Move private personal events to the first of their month, so a box per day
+ * never gives their exact date away (tooltips already show month and year only)
+ */
+function roundPrivateEventsToMonth(mergedEvents: Record<string, MergedEvent[]>): Record<string, MergedEvent[]> {
+  const rounded: Record<string, MergedEvent[]> = {}
+  Object.entries(mergedEvents).forEach(([date, events]) => {
+    events.forEach(event => {
+      const key = event.eventType === PERSONAL_EVENT_TYPE && event.private ? `${date.slice(0, 8)}01` : date
+      if (!rounded[key]) rounded[key] = []
+      rounded[key].push(event)
+    })
+  })
+  return rounded
+}
+
+/**
+ * Label of a box at day, month or year granularity
+ * Years are condensed to the age plus the emoji of their events
+ */
+function createPeriodLabel(
+  period: Period,
+  granularity: Exclude<Granularity, 'weeks'>,
+  events: MergedEvent[],
+  isCompactMode: boolean
+): string {
+  if (granularity === 'years') {
+    const emoji = events
+      .map(event => createCompactEventLabel(event.headline))
+      .filter((label, index, labels) => label && labels.indexOf(label) === index)
+      .slice(0, MAX_YEAR_LABEL_EMOJI)
+      .join('')
+    if (isCompactMode) return emoji
+    return emoji ? `${period.age} ${emoji}` : `${period.age}`
+  }
+  
+  if (events.length === 0) return ''
+  const primaryEvent = events.find(event => event.eventType === PERSONAL_EVENT_TYPE && event.milestone) || events[0]
+  return isCompactMode ? createCompactEventLabel(primaryEvent.headline) : primaryEvent.headline
+}
+
+/**
+ * Build a timeline of days (one year of age), months or years from the same events
+ * Events, tags, date ranges, milestone colors and life expectancy carry over from the
+ * week timeline; a milestone anywhere in a period starts the next color with that period
+ */
+export function buildPeriodTimeline(
+  lifeEvents: EventsData,
+  weeksConfig: WeeksConfig,
+  granularity: Exclude<Granularity, 'weeks'>,
+  options: TimelineOptions = {}
+): Timeline {
+  const {
+    overlays = {},
+    isCompactMode = false,
+    showPersonalEventDates = false,
+    lifeExpectancy = null,
+    dayViewAge = 0
+  } = options
+  
+  const milestoneColors = generateMilestoneColors(lifeEvents)
+  const allMergedEvents = getMergedEvents(lifeEvents, overlays)
+  const mergedEvents = granularity === 'days' ? roundPrivateEventsToMonth(allMergedEvents) : allMergedEvents
+  const eventDates = Object.keys(mergedEvents).sort()
+  const periods = getPeriods(weeksConfig, granularity, dayViewAge)
+  
+  const milestoneWeeks = new Set<string>()
+  const periodEnds = new Map<GridBox, string>()
+  const boxes: GridBox[] = []
+  let colorIndex = 0
+  let currentColor = milestoneColors[0]
+  let dateIndex = 0
+  
+  // Milestones before the first period (days show a single year) still advance the colors
+  for (; dateIndex < eventDates.length && eventDates[dateIndex] < periods[0]?.start; dateIndex++) {
+    const milestoneEvents = mergedEvents[eventDates[dateIndex]].filter(event => event.eventType === PERSONAL_EVENT_TYPE && event.milestone)
+    if (milestoneEvents.length === 0) continue
+    colorIndex++
+    if (colorIndex < milestoneColors.length) {
+      currentColor = milestoneColors[colorIndex]
+    }
+    milestoneEvents.forEach(event => {
+      if (event.color) currentColor = event.color
+    })
+  }
+  
+  for (const period of periods) {
+    // Events are walked in date order alongside the periods
+    while (dateIndex < eventDates.length && eventDates[dateIndex] < period.start) dateIndex++
+    const events: MergedEvent[] = []
+    let firstEventDate = period.start
+    for (let i = dateIndex; i < eventDates.length && eventDates[i] <= period.end; i++) {
+      if (events.length === 0) firstEventDate = eventDates[i]
+      events.push(...mergedEvents[eventDates[i]])
+    }
+    
+    const personalEvents = events.filter(event => event.eventType === PERSONAL_EVENT_TYPE)
+    const milestoneEvents = personalEvents.filter(event => event.milestone)
+    if (milestoneEvents.length > 0) {
+      milestoneWeeks.add(period.start)
+      colorIndex++
+      if (colorIndex < milestoneColors.length) {
+        currentColor = milestoneColors[colorIndex]
+      }
+      milestoneEvents.forEach(event => {
+        if (event.color) currentColor = event.color
+      })
+    }
+    
+    const label = createPeriodLabel(period, granularity, events, isCompactMode)
+    const periodLabel = formatPeriodLabel(period, granularity)
+    const primaryEvent = milestoneEvents[0] || events[0]
+    
+    let box: GridBox
+    if (events.length > 0 && (label || !isCompactMode)) {
+      const descriptions = events.map(event => {
+        const prefix = getOverlay(event.eventType)?.tooltipPrefix ?? ''
+        const duration = event.endDate && event.endDate > firstEventDate ? ` (${formatDuration(firstEventDate, event.endDate)})` : ''
+        return prefix + event.headline + duration + (event.description ? ` - ${event.description}` : '')
+      }).join('\n')
+      
+      box = {
+        type: 'event',
+        label,
+        date: period.start,
+        // Days name the exact date, unless it is private or personal dates are hidden
+        tooltip: granularity === 'days'
+          ? createTooltip(period.start, descriptions, period.start, primaryEvent.eventType, showPersonalEventDates && !events.some(event => event.private))
+          : `${periodLabel} – ${descriptions}`,
+        borderClass: 'btn',
+        backgroundClass: 'custom-color',
+        age: period.age,
+        year: weeksConfig.startYear + period.age,
+        eventType: primaryEvent.eventType,
+        tags: getEventTags(personalEvents)
+      }
+    } else {
+      box = {
+        type: 'week',
+        label,
+        date: period.start,
+        tooltip: periodLabel,
+        borderClass: 'btn',
+        backgroundClass: 'custom-color',
+        age: period.age,
+        year: weeksConfig.startYear + period.age,
+        tags: personalEvents.length > 0 ? getEventTags(personalEvents) : undefined
+      }
+    }
+    
+    box.color = currentColor
+    periodEnds.set(box, period.end)
+    boxes.push(box)
+  }
+  
+  const getPeriodEnd = (box: GridBox) => periodEnds.get(box) ?? box.date
+  const createPeriodTooltip = (box: GridBox, lines: string) => `${box.tooltip} – ${lines}`
+  attachRangeSpans(boxes, getRangeEvents(mergedEvents), getPeriodEnd, createPeriodTooltip)
+  attachLifeExpectancy(boxes, lifeExpectancy, getPeriodEnd, createPeriodTooltip)
+  
+  return { boxes, milestoneColors, milestoneWeeks }
+}
@@ -0,0 +1,31 @@
+// Week permalinks - #week-YYYY-MM-DD links to the box covering that date
+// Any date works: the grid shows the week (or day, month, year box) that contains it
+
+const WEEK_HASH_PATTERN = /^#?week-(\d{4}-\d{2}-\d{2})$/
+
+/**
+ * Hash that links to the box containing a date ("2012-06-15" -> "week-2012-06-15")
+ */
+export function getWeekHash(date: string): string {
+  return `week-${date}`
+}
+
+/**
+ * Date linked by a location hash, or null if it is not a week permalink
+ */
+export function parseWeekHash(hash: string): string | null {
+  return hash.match(WEEK_HASH_PATTERN)?.[1] ?? null
+}
+
+/**
+ * Date of the box containing a date: the last box starting on or before it
+ * (boxes are in chronological order)
+ */
+export function findBoxDateForDate(boxDates: string[], date: string): string | null {
+  let found: string | null = null
+  for (const boxDate of boxDates) {
+    if (boxDate > date) break
+    found = boxDate
+  }
+  return found
+}
@@ -0,0 +1,114 @@
+// Grid Zoom - Continuous cell size scaling (slider, ctrl+scroll, pinch)
+// The grid is scaled with CSS zoom and laid out again for the narrower effective width;
+// label detail drops as it shrinks: emoji-only labels, then dots for empty weeks
+
+import { useEffect, useRef, useState, RefObject } from 'react'
+
+export const MIN_ZOOM = 0.35
+export const MAX_ZOOM = 1.5
+export const DEFAULT_ZOOM = 1
+export const ZOOM_STEP = 0.05
+
+// Below these levels labels become emoji-only, and empty weeks become dots
+export const EMOJI_ONLY_ZOOM = 0.8
+export const DOTS_ZOOM = 0.55
+
+const ZOOM_STORAGE_KEY = 'life-in-weeks:zoom'
+
+// How fast ctrl+scroll (and trackpad pinch, which browsers report as ctrl+wheel) zooms
+const WHEEL_ZOOM_SPEED = 0.002
+
+/**
+ * Keep a zoom level within range, rounded to avoid endless re-layouts for tiny changes
+ */
+export function clampZoom(zoom: number): number {
+  return Math.round(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)) * 100) / 100
+}
+
+/**
+ * Zoom level kept in localStorage between visits
+ * Starts at the default (matching the server render) and restores the stored level after mount
+ */
+export function usePersistentZoom(): [number, (zoom: number) => void] {
+  const [zoom, setZoomState] = useState(DEFAULT_ZOOM)
+
+  useEffect(() => {
+    const stored = Number(window.localStorage.getItem(ZOOM_STORAGE_KEY))
+    if (stored > 0) setZoomState(clampZoom(stored))
+  }, [])
+
+  const setZoom = (next: number) => {
+    const zoomLevel = clampZoom(next)
+    setZoomState(zoomLevel)
+    try {
+      window.localStorage.setItem(ZOOM_STORAGE_KEY, String(zoomLevel))
+    } catch {
+      // Storage can be unavailable (private browsing); the zoom still applies for this visit
+    }
+  }
+
+  return [zoom, setZoom]
+}
+
+/**
+ * Zoom the grid with ctrl+scroll, trackpad pinch and two-finger pinch on touch screens
+ * Listeners are attached again when enabled changes (the grid element may have been replaced)
+ */
+export function useZoomGestures(
+  targetRef: RefObject<HTMLElement | null>,
+  zoom: number,
+  setZoom: (zoom: number) => void,
+  enabled: boolean = true
+) {
+  // Handlers read the latest values without being re-attached on every zoom step
+  const zoomRef = useRef(zoom)
+  const setZoomRef = useRef(setZoom)
+  zoomRef.current = zoom
+  setZoomRef.current = setZoom
+
+  useEffect(() => {
+    const target = targetRef.current
+    if (!target || !enabled) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey) return
+      event.preventDefault()
+      setZoomRef.current(zoomRef.current * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED))
+    }
+
+    let pinch: { distance: number, zoom: number } | null = null
+    const getDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY)
+
+    const handleTouchStart = (event: TouchEvent) => {
+      if (event.touches.length === 2) {
+        pinch = { distance: getDistance(event.touches), zoom: zoomRef.current }
+      }
+    }
+
+    const handleTouchMove = (event: TouchEvent) => {
+      if (!pinch || event.touches.length !== 2) return
+      event.preventDefault()
+      setZoomRef.current(pinch.zoom * getDistance(event.touches) / pinch.distance)
+    }
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (event.touches.length < 2) pinch = null
+    }
+
+    // Not passive: ctrl+wheel and pinch would otherwise zoom the whole page
+    target.addEventListener('wheel', handleWheel, { passive: false })
+    target.addEventListener('touchstart', handleTouchStart, { passive: true })
+    target.addEventListener('touchmove', handleTouchMove, { passive: false })
+    target.addEventListener('touchend', handleTouchEnd)
+    target.addEventListener('touchcancel', handleTouchEnd)
+
+    return () => {
+      target.removeEventListener('wheel', handleWheel)
+      target.removeEventListener('touchstart', handleTouchStart)
+      target.removeEventListener('touchmove', handleTouchMove)
+      target.removeEventListener('touchend', handleTouchEnd)
+      target.removeEventListener('touchcancel', handleTouchEnd)
+    }
+  }, [targetRef, enabled])
+}
@@ -0,0 +1,12 @@
+// Row Breaking Worker - Breaks the grid into rows off the main thread
+// Labels are measured on the main thread (where the web fonts are loaded); only widths come here
+
+import { breakRowsByWidth, RowBreakingRequest, RowBreakingResponse } from '../utils/row-breaking'
+
+const worker = self as unknown as Worker
+
+worker.onmessage = (event: MessageEvent<RowBreakingRequest>) => {
+  const { id, widths, availableWidth, forcedBreaks } = event.data
+  const response: RowBreakingResponse = { id, rowStarts: breakRowsByWidth(widths, availableWidth, forcedBreaks) }
+  worker.postMessage(response)
+}
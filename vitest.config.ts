@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'scripts/**/*.test.ts'],
+    // Dates are parsed in local time; pin the zone so results match on every machine
+    env: { TZ: 'UTC' }
+  }
+})